@@ -9,6 +9,19 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
+import Profile from "./pages/Profile";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import StoreDetails from "./pages/StoreDetails";
+import BrandDetails from "./pages/BrandDetails";
+import Polls from "./pages/Polls";
+import PollDetails from "./pages/PollDetails";
+import Brackets from "./pages/Brackets";
+import BracketDetails from "./pages/BracketDetails";
+import JoinInvite from "./pages/JoinInvite";
+import StoreLists from "./pages/StoreLists";
+import StoreListDetails from "./pages/StoreListDetails";
+import SharedStoreList from "./pages/SharedStoreList";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,6 +36,8 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/dashboard" element={
               <ProtectedRoute>
                 <Dashboard />
@@ -33,6 +48,66 @@ const App = () => (
                 <Settings />
               </ProtectedRoute>
             } />
+            <Route path="/profile" element={
+              <ProtectedRoute>
+                <Profile />
+              </ProtectedRoute>
+            } />
+            <Route path="/stores/:id" element={
+              <ProtectedRoute>
+                <StoreDetails />
+              </ProtectedRoute>
+            } />
+            <Route path="/brands/:id" element={
+              <ProtectedRoute>
+                <BrandDetails />
+              </ProtectedRoute>
+            } />
+            <Route path="/polls" element={
+              <ProtectedRoute>
+                <Polls />
+              </ProtectedRoute>
+            } />
+            <Route path="/polls/join/:code" element={
+              <ProtectedRoute>
+                <JoinInvite kind="poll" />
+              </ProtectedRoute>
+            } />
+            <Route path="/polls/:id" element={
+              <ProtectedRoute>
+                <PollDetails />
+              </ProtectedRoute>
+            } />
+            <Route path="/brackets" element={
+              <ProtectedRoute>
+                <Brackets />
+              </ProtectedRoute>
+            } />
+            <Route path="/brackets/join/:code" element={
+              <ProtectedRoute>
+                <JoinInvite kind="bracket" />
+              </ProtectedRoute>
+            } />
+            <Route path="/brackets/:id" element={
+              <ProtectedRoute>
+                <BracketDetails />
+              </ProtectedRoute>
+            } />
+            <Route path="/lists" element={
+              <ProtectedRoute>
+                <StoreLists />
+              </ProtectedRoute>
+            } />
+            <Route path="/lists/shared/:code" element={
+              <ProtectedRoute>
+                <SharedStoreList />
+              </ProtectedRoute>
+            } />
+            <Route path="/lists/:id" element={
+              <ProtectedRoute>
+                <StoreListDetails />
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,15 +1,35 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Users, Store, Star, Plus, Search, ArrowUpDown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { Users, Store, Star, Plus, Search, Pencil, Trash2, RotateCcw, UserX, ExternalLink, ImageIcon } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useTableParams } from '@/hooks/use-table-params';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import TablePagination from '@/components/TablePagination';
+import UserDetailSheet from '@/components/UserDetailSheet';
+import EditUserDialog from '@/components/EditUserDialog';
+import EditStoreDialog from '@/components/EditStoreDialog';
+import StorePhotosDialog from '@/components/StorePhotosDialog';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+import RowActions from '@/components/RowActions';
+import BrandManager from '@/components/BrandManager';
+import CriteriaManager from '@/components/CriteriaManager';
+import CategoryManager from '@/components/CategoryManager';
+import { useAuth } from '@/contexts/AuthContext';
+import { escapeLike, getPageRange, type SortRule } from '@/lib/table-query';
+import { invokeFunction } from '@/lib/functions';
+import { STORE_PHOTOS_BUCKET } from '@/lib/images';
+import { getFieldErrors, storeSchema, userSchema } from '@/lib/validation';
 import { z } from 'zod';
 
 interface DashboardStats {
@@ -24,40 +44,47 @@ interface Profile {
   email: string;
   address?: string;
   role: 'admin' | 'normal_user' | 'store_owner';
+  deleted_at: string | null;
 }
 
 interface Store {
   id: string;
+  owner_id: string;
   name: string;
   email: string;
   address: string;
   average_rating: number;
   total_ratings: number;
+  deleted_at: string | null;
+  brand_id: string | null;
+  category_id: string | null;
+  tags: string[];
 }
 
-const userSchema = z.object({
-  name: z.string().min(20, 'Name must be at least 20 characters').max(60, 'Name must be at most 60 characters'),
-  email: z.string().email('Invalid email address'),
-  address: z.string().max(400, 'Address must be at most 400 characters').optional(),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(16, 'Password must be at most 16 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character'),
-  role: z.enum(['admin', 'normal_user', 'store_owner'])
-});
-
-const storeSchema = z.object({
-  name: z.string().min(20, 'Name must be at least 20 characters').max(60, 'Name must be at most 60 characters'),
-  email: z.string().email('Invalid email address'),
-  address: z.string().min(1, 'Address is required').max(400, 'Address must be at most 400 characters'),
-  ownerEmail: z.string().email('Invalid owner email address')
-});
+interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+const PAGE_SIZE = 10;
+
+const USER_FILTER_KEYS = ['name', 'email', 'address', 'role'] as const;
+const USER_SORT_COLUMNS = ['name', 'email', 'address', 'role'];
+const STORE_FILTER_KEYS = ['name', 'email', 'address', 'category', 'tag'] as const;
+const STORE_SORT_COLUMNS = ['name', 'email', 'address', 'average_rating'];
+const DEFAULT_SORT: SortRule[] = [{ column: 'name', direction: 'asc' }];
+
+const DeletedBadge = ({ label }: { label: string }) => (
+  <Badge variant="outline" className="ml-2 text-muted-foreground">{label}</Badge>
+);
 
 const AdminDashboard = () => {
+  const { profile } = useAuth();
   const [stats, setStats] = useState<DashboardStats>({ totalUsers: 0, totalStores: 0, totalRatings: 0 });
   const [users, setUsers] = useState<Profile[]>([]);
+  const [userCount, setUserCount] = useState(0);
   const [stores, setStores] = useState<Store[]>([]);
+  const [storeCount, setStoreCount] = useState(0);
   const [loading, setLoading] = useState(true);
   
   // Forms state
@@ -75,30 +102,224 @@ const AdminDashboard = () => {
     ownerEmail: ''
   });
   
-  // Filters and search
-  const [userFilter, setUserFilter] = useState({ name: '', email: '', address: '', role: '' });
-  const [storeFilter, setStoreFilter] = useState({ name: '', email: '', address: '' });
+  // Filters, sorting and paging live in the URL and are applied by the queries
+  const userParams = useTableParams({
+    prefix: 'users',
+    filterKeys: USER_FILTER_KEYS,
+    sortColumns: USER_SORT_COLUMNS,
+    defaultSort: DEFAULT_SORT
+  });
+  const storeParams = useTableParams({
+    prefix: 'stores',
+    filterKeys: STORE_FILTER_KEYS,
+    sortColumns: STORE_SORT_COLUMNS,
+    defaultSort: DEFAULT_SORT
+  });
+  const userQueryKey = useDebounce(userParams.queryKey);
+  const storeQueryKey = useDebounce(storeParams.queryKey);
+
+  // Ignore responses that arrive after a newer request was started
+  const usersRequest = useRef(0);
+  const storesRequest = useRef(0);
   
   // Dialog states
   const [userDialogOpen, setUserDialogOpen] = useState(false);
   const [storeDialogOpen, setStoreDialogOpen] = useState(false);
+  const [creatingUser, setCreatingUser] = useState(false);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [editingUser, setEditingUser] = useState<Profile | null>(null);
+  const [editingStore, setEditingStore] = useState<Store | null>(null);
+  const [photoStore, setPhotoStore] = useState<Store | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+
+  const userColumns: DataTableColumn<Profile>[] = [
+    {
+      key: 'name',
+      header: 'Name',
+      sortable: true,
+      cell: (user) => (
+        <span className={user.deleted_at ? 'text-muted-foreground' : ''}>
+          {user.name}
+          {user.deleted_at && <DeletedBadge label="Deactivated" />}
+        </span>
+      )
+    },
+    { key: 'email', header: 'Email', sortable: true, cell: (user) => user.email },
+    { key: 'address', header: 'Address', sortable: true, cell: (user) => user.address || 'N/A' },
+    {
+      key: 'role',
+      header: 'Role',
+      sortable: true,
+      className: 'capitalize',
+      cell: (user) => user.role.replace('_', ' ')
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-12',
+      cell: (user) => (
+        <RowActions>
+          <DropdownMenuItem onSelect={() => setEditingUser(user)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          {user.deleted_at ? (
+            <DropdownMenuItem onSelect={() => setUserDeleted(user, false)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              disabled={user.id === profile?.id}
+              className="text-destructive"
+              onSelect={() => setConfirmAction({
+                title: 'Deactivate user?',
+                description: `${user.name} will no longer be able to use the platform. Their ratings are kept and the account can be restored later.`,
+                confirmLabel: 'Deactivate',
+                destructive: true,
+                onConfirm: () => setUserDeleted(user, true)
+              })}
+            >
+              <UserX className="h-4 w-4 mr-2" />
+              Deactivate
+            </DropdownMenuItem>
+          )}
+        </RowActions>
+      )
+    }
+  ];
+
+  const storeColumns: DataTableColumn<Store>[] = [
+    {
+      key: 'name',
+      header: 'Name',
+      sortable: true,
+      cell: (store) => (
+        <span className={store.deleted_at ? 'text-muted-foreground' : ''}>
+          {store.name}
+          {store.deleted_at && <DeletedBadge label="Deleted" />}
+        </span>
+      )
+    },
+    { key: 'email', header: 'Email', sortable: true, cell: (store) => store.email },
+    { key: 'address', header: 'Address', sortable: true, cell: (store) => store.address },
+    {
+      key: 'category',
+      header: 'Category',
+      cell: (store) => (
+        <div className="space-y-1">
+          <span>{categories.find((c) => c.id === store.category_id)?.name || '—'}</span>
+          {store.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {store.tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )
+    },
+    {
+      key: 'average_rating',
+      header: 'Rating',
+      sortable: true,
+      cell: (store) => (
+        <div className="flex items-center space-x-1">
+          <Star className="h-4 w-4 fill-current text-yellow-400" />
+          <span>{store.average_rating.toFixed(1)} ({store.total_ratings})</span>
+        </div>
+      )
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-12',
+      cell: (store) => (
+        <RowActions>
+          <DropdownMenuItem asChild>
+            <Link to={`/stores/${store.id}`}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View Page
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditingStore(store)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setPhotoStore(store)}>
+            <ImageIcon className="h-4 w-4 mr-2" />
+            Photos
+          </DropdownMenuItem>
+          {store.deleted_at ? (
+            <>
+              <DropdownMenuItem onSelect={() => setStoreDeleted(store, false)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore
+              </DropdownMenuItem>
+              {/* Rated stores keep their history and can only stay soft-deleted */}
+              {store.total_ratings === 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onSelect={() => setConfirmAction({
+                      title: 'Delete store permanently?',
+                      description: `${store.name} and its photos will be removed. This cannot be undone.`,
+                      confirmLabel: 'Delete permanently',
+                      destructive: true,
+                      onConfirm: () => purgeStore(store)
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete permanently
+                  </DropdownMenuItem>
+                </>
+              )}
+            </>
+          ) : (
+            <DropdownMenuItem
+              className="text-destructive"
+              onSelect={() => setConfirmAction({
+                title: 'Delete store?',
+                description: `${store.name} will be hidden from users. Its ratings are kept and the store can be restored later.`,
+                confirmLabel: 'Delete',
+                destructive: true,
+                onConfirm: () => setStoreDeleted(store, true)
+              })}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          )}
+        </RowActions>
+      )
+    }
+  ];
 
   useEffect(() => {
-    fetchData();
+    fetchStats().then(() => setLoading(false));
+    fetchCategories();
   }, []);
 
+  useEffect(() => {
+    fetchUsers();
+  }, [userQueryKey]);
+
+  useEffect(() => {
+    fetchStores();
+  }, [storeQueryKey]);
+
   const fetchData = async () => {
-    setLoading(true);
     await Promise.all([fetchStats(), fetchUsers(), fetchStores()]);
-    setLoading(false);
   };
 
   const fetchStats = async () => {
     const [usersResult, storesResult, ratingsResult] = await Promise.all([
-      supabase.from('profiles').select('id', { count: 'exact' }),
-      supabase.from('stores').select('id', { count: 'exact' }),
-      supabase.from('ratings').select('id', { count: 'exact' })
+      supabase.from('profiles').select('id', { count: 'exact', head: true }),
+      supabase.from('stores').select('id', { count: 'exact', head: true }),
+      supabase.from('ratings').select('id', { count: 'exact', head: true })
     ]);
 
     setStats({
@@ -108,29 +329,85 @@ const AdminDashboard = () => {
     });
   };
 
+  const fetchCategories = async () => {
+    const { data } = await supabase
+      .from('categories')
+      .select('id, name')
+      .order('name');
+
+    setCategories(data || []);
+  };
+
   const fetchUsers = async () => {
-    const { data, error } = await supabase
+    const requestId = ++usersRequest.current;
+    const { page, sort, filters } = userParams;
+    const { from, to } = getPageRange(page, PAGE_SIZE);
+
+    let query = supabase
       .from('profiles')
-      .select('*')
-      .order('name');
-    
+      .select('*', { count: 'exact' });
+
+    if (filters.name) query = query.ilike('name', `%${escapeLike(filters.name)}%`);
+    if (filters.email) query = query.ilike('email', `%${escapeLike(filters.email)}%`);
+    if (filters.address) query = query.ilike('address', `%${escapeLike(filters.address)}%`);
+    if (filters.role) query = query.eq('role', filters.role as Profile['role']);
+
+    sort.forEach((rule) => {
+      query = query.order(rule.column, { ascending: rule.direction === 'asc' });
+    });
+    // Sort columns like role or name repeat, so a unique key keeps page boundaries stable
+    query = query.order('id');
+
+    const { data, error, count } = await query.range(from, to);
+
+    if (requestId !== usersRequest.current) return;
+
     if (error) {
+      // The requested page no longer exists, e.g. after rows were removed
+      if (error.code === 'PGRST103' && page > 1) {
+        userParams.setPage(1);
+        return;
+      }
       toast({ title: 'Error', description: 'Failed to fetch users', variant: 'destructive' });
     } else {
       setUsers(data || []);
+      setUserCount(count || 0);
     }
   };
 
   const fetchStores = async () => {
-    const { data, error } = await supabase
+    const requestId = ++storesRequest.current;
+    const { page, sort, filters } = storeParams;
+    const { from, to } = getPageRange(page, PAGE_SIZE);
+
+    let query = supabase
       .from('store_ratings')
-      .select('*')
-      .order('name');
-    
+      .select('*', { count: 'exact' });
+
+    if (filters.name) query = query.ilike('name', `%${escapeLike(filters.name)}%`);
+    if (filters.email) query = query.ilike('email', `%${escapeLike(filters.email)}%`);
+    if (filters.address) query = query.ilike('address', `%${escapeLike(filters.address)}%`);
+    if (filters.category) query = query.eq('category_id', filters.category);
+    if (filters.tag.trim()) query = query.contains('tags', [filters.tag.trim().toLowerCase()]);
+
+    sort.forEach((rule) => {
+      query = query.order(rule.column, { ascending: rule.direction === 'asc' });
+    });
+    query = query.order('id');
+
+    const { data, error, count } = await query.range(from, to);
+
+    if (requestId !== storesRequest.current) return;
+
     if (error) {
+      if (error.code === 'PGRST103' && page > 1) {
+        storeParams.setPage(1);
+        return;
+      }
       toast({ title: 'Error', description: 'Failed to fetch stores', variant: 'destructive' });
     } else {
       setStores(data || []);
+      setStoreCount(count || 0);
     }
   };
 
@@ -141,13 +418,7 @@ const AdminDashboard = () => {
       return true;
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const fieldErrors: Record<string, string> = {};
-        error.errors.forEach((err) => {
-          if (err.path[0]) {
-            fieldErrors[err.path[0] as string] = err.message;
-          }
-        });
-        setErrors(fieldErrors);
+        setErrors(getFieldErrors(error));
       }
       return false;
     }
@@ -160,13 +431,7 @@ const AdminDashboard = () => {
       return true;
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const fieldErrors: Record<string, string> = {};
-        error.errors.forEach((err) => {
-          if (err.path[0]) {
-            fieldErrors[err.path[0] as string] = err.message;
-          }
-        });
-        setErrors(fieldErrors);
+        setErrors(getFieldErrors(error));
       }
       return false;
     }
@@ -175,17 +440,14 @@ const AdminDashboard = () => {
   const handleCreateUser = async () => {
     if (!validateUserForm()) return;
 
-    const { error } = await supabase.auth.admin.createUser({
-      email: userForm.email,
-      password: userForm.password,
-      user_metadata: {
-        name: userForm.name,
-        address: userForm.address,
-        role: userForm.role
-      }
-    });
+    setCreatingUser(true);
+    const { error } = await invokeFunction<{ profile: Profile }>('admin-create-user', userForm);
+    setCreatingUser(false);
 
     if (error) {
+      if (error.fieldErrors) {
+        setErrors(error.fieldErrors);
+      }
       toast({ title: 'Error', description: error.message, variant: 'destructive' });
     } else {
       toast({ title: 'Success', description: 'User created successfully' });
@@ -198,15 +460,17 @@ const AdminDashboard = () => {
   const handleCreateStore = async () => {
     if (!validateStoreForm()) return;
 
-    // First find the owner profile
+    // First find the owner profile, matched the same way as in EditStoreDialog
     const { data: ownerProfile, error: ownerError } = await supabase
       .from('profiles')
       .select('id')
-      .eq('email', storeForm.ownerEmail)
-      .single();
+      .ilike('email', escapeLike(storeForm.ownerEmail.trim()))
+      .eq('role', 'store_owner')
+      .is('deleted_at', null)
+      .maybeSingle();
 
     if (ownerError || !ownerProfile) {
-      toast({ title: 'Error', description: 'Store owner not found', variant: 'destructive' });
+      toast({ title: 'Error', description: 'No active store owner has this email', variant: 'destructive' });
       return;
     }
 
@@ -229,22 +493,62 @@ const AdminDashboard = () => {
     }
   };
 
-  const filteredUsers = users.filter(user => {
-    return (
-      (!userFilter.name || user.name.toLowerCase().includes(userFilter.name.toLowerCase())) &&
-      (!userFilter.email || user.email.toLowerCase().includes(userFilter.email.toLowerCase())) &&
-      (!userFilter.address || user.address?.toLowerCase().includes(userFilter.address.toLowerCase())) &&
-      (!userFilter.role || user.role === userFilter.role)
-    );
-  });
+  // Soft delete: rows stay in place (with their ratings) and can be restored
+  const setUserDeleted = async (user: Profile, deleted: boolean) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ deleted_at: deleted ? new Date().toISOString() : null })
+      .eq('id', user.id);
 
-  const filteredStores = stores.filter(store => {
-    return (
-      (!storeFilter.name || store.name.toLowerCase().includes(storeFilter.name.toLowerCase())) &&
-      (!storeFilter.email || store.email.toLowerCase().includes(storeFilter.email.toLowerCase())) &&
-      (!storeFilter.address || store.address.toLowerCase().includes(storeFilter.address.toLowerCase()))
-    );
-  });
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: deleted ? 'User deactivated' : 'User restored' });
+      fetchData();
+    }
+  };
+
+  const setStoreDeleted = async (store: Store, deleted: boolean) => {
+    const { error } = await supabase
+      .from('stores')
+      .update({ deleted_at: deleted ? new Date().toISOString() : null })
+      .eq('id', store.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: deleted ? 'Store deleted' : 'Store restored' });
+      fetchData();
+    }
+  };
+
+  // Only allowed by RLS once the store is soft-deleted, and refused by the database for stores with
+  // rating, poll or bracket history; cascades to photo rows and opening hours
+  const purgeStore = async (store: Store) => {
+    const { data: photos } = await supabase
+      .from('store_photos')
+      .select('path, thumbnail_path')
+      .eq('store_id', store.id);
+
+    const { error } = await supabase
+      .from('stores')
+      .delete()
+      .eq('id', store.id);
+
+    // The cascade only removes the rows, so clear the files out of the bucket as well
+    if (!error && photos && photos.length > 0) {
+      await supabase.storage
+        .from(STORE_PHOTOS_BUCKET)
+        .remove(photos.flatMap((photo) => [photo.path, photo.thumbnail_path]));
+    }
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Store permanently deleted' });
+      fetchData();
+    }
+  };
 
   if (loading) {
     return (
@@ -299,7 +603,7 @@ const AdminDashboard = () => {
           <div className="flex justify-between items-center">
             <div>
               <CardTitle>Users</CardTitle>
-              <CardDescription>Manage users and their roles</CardDescription>
+              <CardDescription>Manage users and their roles. Select a user to see their details.</CardDescription>
             </div>
             <Dialog open={userDialogOpen} onOpenChange={setUserDialogOpen}>
               <DialogTrigger asChild>
@@ -364,9 +668,10 @@ const AdminDashboard = () => {
                         <SelectItem value="admin">Admin</SelectItem>
                       </SelectContent>
                     </Select>
+                    {errors.role && <p className="text-sm text-destructive">{errors.role}</p>}
                   </div>
-                  <Button onClick={handleCreateUser} className="w-full">
-                    Create User
+                  <Button onClick={handleCreateUser} className="w-full" disabled={creatingUser}>
+                    {creatingUser ? 'Creating...' : 'Create User'}
                   </Button>
                 </div>
               </DialogContent>
@@ -378,25 +683,28 @@ const AdminDashboard = () => {
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
             <Input
               placeholder="Filter by name"
-              value={userFilter.name}
-              onChange={(e) => setUserFilter({ ...userFilter, name: e.target.value })}
+              value={userParams.filters.name}
+              onChange={(e) => userParams.setFilter('name', e.target.value)}
             />
             <Input
               placeholder="Filter by email"
-              value={userFilter.email}
-              onChange={(e) => setUserFilter({ ...userFilter, email: e.target.value })}
+              value={userParams.filters.email}
+              onChange={(e) => userParams.setFilter('email', e.target.value)}
             />
             <Input
               placeholder="Filter by address"
-              value={userFilter.address}
-              onChange={(e) => setUserFilter({ ...userFilter, address: e.target.value })}
+              value={userParams.filters.address}
+              onChange={(e) => userParams.setFilter('address', e.target.value)}
             />
-            <Select value={userFilter.role} onValueChange={(value) => setUserFilter({ ...userFilter, role: value })}>
+            <Select
+              value={userParams.filters.role || 'all'}
+              onValueChange={(value) => userParams.setFilter('role', value === 'all' ? '' : value)}
+            >
               <SelectTrigger>
                 <SelectValue placeholder="Filter by role" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="">All Roles</SelectItem>
+                <SelectItem value="all">All Roles</SelectItem>
                 <SelectItem value="normal_user">Normal User</SelectItem>
                 <SelectItem value="store_owner">Store Owner</SelectItem>
                 <SelectItem value="admin">Admin</SelectItem>
@@ -404,26 +712,21 @@ const AdminDashboard = () => {
             </Select>
           </div>
           
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Address</TableHead>
-                <TableHead>Role</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredUsers.map((user) => (
-                <TableRow key={user.id}>
-                  <TableCell>{user.name}</TableCell>
-                  <TableCell>{user.email}</TableCell>
-                  <TableCell>{user.address || 'N/A'}</TableCell>
-                  <TableCell className="capitalize">{user.role.replace('_', ' ')}</TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <DataTable
+            columns={userColumns}
+            rows={users}
+            getRowKey={(user) => user.id}
+            sort={userParams.sort}
+            onSortChange={userParams.setSort}
+            onRowClick={(user) => setSelectedUserId(user.id)}
+            emptyMessage="No users match these filters."
+          />
+          <TablePagination
+            page={userParams.page}
+            pageSize={PAGE_SIZE}
+            totalCount={userCount}
+            onPageChange={userParams.setPage}
+          />
         </CardContent>
       </Card>
 
@@ -496,51 +799,98 @@ const AdminDashboard = () => {
         </CardHeader>
         <CardContent>
           {/* Store Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-4">
             <Input
               placeholder="Filter by name"
-              value={storeFilter.name}
-              onChange={(e) => setStoreFilter({ ...storeFilter, name: e.target.value })}
+              value={storeParams.filters.name}
+              onChange={(e) => storeParams.setFilter('name', e.target.value)}
             />
             <Input
               placeholder="Filter by email"
-              value={storeFilter.email}
-              onChange={(e) => setStoreFilter({ ...storeFilter, email: e.target.value })}
+              value={storeParams.filters.email}
+              onChange={(e) => storeParams.setFilter('email', e.target.value)}
             />
             <Input
               placeholder="Filter by address"
-              value={storeFilter.address}
-              onChange={(e) => setStoreFilter({ ...storeFilter, address: e.target.value })}
+              value={storeParams.filters.address}
+              onChange={(e) => storeParams.setFilter('address', e.target.value)}
+            />
+            <Select
+              value={storeParams.filters.category || 'all'}
+              onValueChange={(value) => storeParams.setFilter('category', value === 'all' ? '' : value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Filter by tag"
+              value={storeParams.filters.tag}
+              onChange={(e) => storeParams.setFilter('tag', e.target.value)}
             />
           </div>
           
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Address</TableHead>
-                <TableHead>Rating</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredStores.map((store) => (
-                <TableRow key={store.id}>
-                  <TableCell>{store.name}</TableCell>
-                  <TableCell>{store.email}</TableCell>
-                  <TableCell>{store.address}</TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-1">
-                      <Star className="h-4 w-4 fill-current text-yellow-400" />
-                      <span>{store.average_rating.toFixed(1)} ({store.total_ratings})</span>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <DataTable
+            columns={storeColumns}
+            rows={stores}
+            getRowKey={(store) => store.id}
+            sort={storeParams.sort}
+            onSortChange={storeParams.setSort}
+            emptyMessage="No stores match these filters."
+          />
+          <TablePagination
+            page={storeParams.page}
+            pageSize={PAGE_SIZE}
+            totalCount={storeCount}
+            onPageChange={storeParams.setPage}
+          />
         </CardContent>
       </Card>
+
+      <BrandManager />
+
+      <CategoryManager
+        onChanged={() => {
+          fetchCategories();
+          fetchStores();
+        }}
+      />
+
+      <CriteriaManager />
+
+      <UserDetailSheet
+        userId={selectedUserId}
+        onOpenChange={(open) => !open && setSelectedUserId(null)}
+      />
+
+      <EditUserDialog
+        user={editingUser}
+        onOpenChange={(open) => !open && setEditingUser(null)}
+        onSaved={fetchData}
+      />
+
+      <EditStoreDialog
+        store={editingStore}
+        categories={categories}
+        onOpenChange={(open) => !open && setEditingStore(null)}
+        onSaved={fetchData}
+      />
+
+      <StorePhotosDialog
+        store={photoStore}
+        onOpenChange={(open) => !open && setPhotoStore(null)}
+      />
+
+      <ConfirmDialog
+        action={confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import { escapeLike } from '@/lib/table-query';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+
+const RESULT_LIMIT = 5;
+
+interface StoreOption {
+  id: string;
+  name: string;
+  address: string;
+}
+
+interface AssignStorePickerProps {
+  ownerId: string;
+  ownerName: string;
+  onAssigned: () => void;
+}
+
+// Lets an admin hand any active store to this owner, in addition to the ones they already run
+const AssignStorePicker = ({ ownerId, ownerName, onAssigned }: AssignStorePickerProps) => {
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search.trim());
+  const [results, setResults] = useState<StoreOption[]>([]);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    if (debouncedSearch) {
+      searchStores(debouncedSearch);
+    } else {
+      setResults([]);
+    }
+  }, [debouncedSearch, ownerId]);
+
+  const searchStores = async (term: string) => {
+    const { data, error } = await supabase
+      .from('stores')
+      .select('id, name, address')
+      .neq('owner_id', ownerId)
+      .is('deleted_at', null)
+      .ilike('name', `%${escapeLike(term)}%`)
+      .order('name')
+      .limit(RESULT_LIMIT);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to search stores', variant: 'destructive' });
+    } else {
+      setResults(data || []);
+    }
+  };
+
+  const assignStore = async (store: StoreOption) => {
+    const { error } = await supabase
+      .from('stores')
+      .update({ owner_id: ownerId })
+      .eq('id', store.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: `${store.name} assigned to ${ownerName}` });
+      setSearch('');
+      onAssigned();
+    }
+  };
+
+  const confirmAssign = (store: StoreOption) => {
+    setConfirmAction({
+      title: 'Assign store?',
+      description: `${store.name} will move from its current owner to ${ownerName}.`,
+      confirmLabel: 'Assign',
+      onConfirm: () => assignStore(store)
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Search className="h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search stores to assign..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+      {results.map((store) => (
+        <div key={store.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{store.name}</p>
+            <p className="text-muted-foreground truncate">{store.address}</p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => confirmAssign(store)}>Assign</Button>
+        </div>
+      ))}
+      {debouncedSearch && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">No other stores match "{debouncedSearch}".</p>
+      )}
+
+      <ConfirmDialog action={confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)} />
+    </div>
+  );
+};
+
+export default AssignStorePicker;
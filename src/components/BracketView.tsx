@@ -0,0 +1,115 @@
+import { Trophy } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getRoundCount, getRoundName } from '@/lib/brackets';
+
+export interface BracketMatch {
+  id: string;
+  round: number;
+  slot: number;
+  store_a_id: string;
+  store_b_id: string;
+  winner_store_id: string | null;
+}
+
+export interface BracketVote {
+  match_id: string;
+  user_id: string;
+  store_id: string;
+}
+
+export interface BracketEntry {
+  seed: number;
+  name: string;
+}
+
+interface BracketViewProps {
+  size: number;
+  matches: BracketMatch[];
+  entries: Record<string, BracketEntry>;
+  votes: BracketVote[];
+  currentRound: number;
+  championId: string | null;
+  profileId: string | undefined;
+  // Omitted when the viewer can't vote, e.g. once the bracket is finished
+  onVote?: (match: BracketMatch, storeId: string) => void;
+}
+
+// Rounds laid out left to right, with matches spaced so each pair feeds the match beside it
+const BracketView = ({ size, matches, entries, votes, currentRound, championId, profileId, onVote }: BracketViewProps) => {
+  const roundCount = getRoundCount(size);
+  const rounds = Array.from({ length: roundCount }, (_, index) => index + 1);
+
+  const renderContender = (match: BracketMatch, storeId: string) => {
+    const entry = entries[storeId];
+    const count = votes.filter((vote) => vote.match_id === match.id && vote.store_id === storeId).length;
+    const isOwnVote = votes.some((vote) => vote.match_id === match.id && vote.user_id === profileId && vote.store_id === storeId);
+    const isWinner = match.winner_store_id === storeId;
+    const isLoser = match.winner_store_id !== null && !isWinner;
+    const canVote = onVote && match.round === currentRound && match.winner_store_id === null;
+
+    return (
+      <button
+        type="button"
+        disabled={!canVote}
+        onClick={() => onVote?.(match, storeId)}
+        className={cn(
+          'flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors',
+          canVote && 'hover:bg-muted',
+          isOwnVote && 'bg-primary/10',
+          isWinner && 'font-semibold',
+          isLoser && 'text-muted-foreground line-through'
+        )}
+      >
+        <span className="w-5 text-xs text-muted-foreground">{entry?.seed}</span>
+        <span className="flex-1 truncate">{entry?.name ?? 'Store no longer listed'}</span>
+        <span className="text-xs text-muted-foreground">{count}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex min-w-max gap-6" style={{ minHeight: `${(size / 2) * 5.5}rem` }}>
+        {rounds.map((round) => {
+          const slotCount = size / 2 ** round;
+          return (
+            <div key={round} className="flex w-56 flex-col">
+              <p className={cn('pb-2 text-sm font-medium', round === currentRound && !championId && 'text-primary')}>
+                {getRoundName(round, roundCount)}
+              </p>
+              <div className="flex flex-1 flex-col justify-around gap-2">
+                {Array.from({ length: slotCount }, (_, slot) => {
+                  const match = matches.find((m) => m.round === round && m.slot === slot);
+                  return match ? (
+                    <div key={slot} className="divide-y overflow-hidden rounded-md border bg-card">
+                      {renderContender(match, match.store_a_id)}
+                      {renderContender(match, match.store_b_id)}
+                    </div>
+                  ) : (
+                    <div key={slot} className="rounded-md border border-dashed px-3 py-5 text-center text-xs text-muted-foreground">
+                      To be decided
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex w-48 flex-col">
+          <p className="pb-2 text-sm font-medium">Champion</p>
+          <div className="flex flex-1 flex-col justify-around">
+            <div className={cn(
+              'flex items-center gap-2 rounded-md border px-3 py-4 text-sm',
+              championId ? 'border-primary font-semibold' : 'border-dashed text-muted-foreground'
+            )}>
+              <Trophy className={cn('h-4 w-4', championId && 'text-yellow-500')} />
+              {championId ? entries[championId]?.name ?? 'Store no longer listed' : 'To be decided'}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BracketView;
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { brandSchema, getFieldErrors } from '@/lib/validation';
+
+interface EditableBrand {
+  id: string;
+  name: string;
+}
+
+interface BrandDialogProps {
+  open: boolean;
+  // Brand being renamed; null when creating a new one
+  brand: EditableBrand | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const BrandDialog = ({ open, brand, onOpenChange, onSaved }: BrandDialogProps) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(brand?.name || '');
+      setError('');
+    }
+  }, [open, brand]);
+
+  const handleSave = async () => {
+    const result = brandSchema.safeParse({ name });
+    if (!result.success) {
+      setError(getFieldErrors(result.error).name);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = brand
+      ? await supabase
+          .from('brands')
+          .update({ name: result.data.name })
+          .eq('id', brand.id)
+      : await supabase
+          .from('brands')
+          .insert({ name: result.data.name });
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation on brands.name
+        setError('A brand with this name already exists');
+      } else {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      }
+    } else {
+      toast({ title: 'Success', description: brand ? 'Brand renamed successfully' : 'Brand created successfully' });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{brand ? 'Rename Brand' : 'Add New Brand'}</DialogTitle>
+          <DialogDescription>Brands group stores that belong to the same chain</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Brand Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              className={error ? 'border-destructive' : ''}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : brand ? 'Save Changes' : 'Create Brand'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BrandDialog;
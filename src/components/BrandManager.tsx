@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { ExternalLink, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import RowActions from '@/components/RowActions';
+import BrandDialog from '@/components/BrandDialog';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+
+interface Brand {
+  id: string;
+  name: string;
+  store_count: number;
+  average_rating: number;
+  total_ratings: number;
+}
+
+// Admin section for creating, renaming and deleting brands; stores are attached from the store edit dialog
+const BrandManager = () => {
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBrand, setEditingBrand] = useState<Brand | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    fetchBrands();
+  }, []);
+
+  const fetchBrands = async () => {
+    const { data, error } = await supabase
+      .from('brand_ratings')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch brands', variant: 'destructive' });
+    } else {
+      setBrands(data || []);
+    }
+  };
+
+  const openDialog = (brand: Brand | null) => {
+    setEditingBrand(brand);
+    setDialogOpen(true);
+  };
+
+  const deleteBrand = async (brand: Brand) => {
+    const { error } = await supabase
+      .from('brands')
+      .delete()
+      .eq('id', brand.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Brand deleted' });
+      fetchBrands();
+    }
+  };
+
+  const brandColumns: DataTableColumn<Brand>[] = [
+    { key: 'name', header: 'Name', sortable: true, cell: (brand) => brand.name },
+    { key: 'store_count', header: 'Locations', sortable: true, cell: (brand) => brand.store_count },
+    {
+      key: 'average_rating',
+      header: 'Rating',
+      sortable: true,
+      cell: (brand) => (
+        <div className="flex items-center space-x-1">
+          <Star className="h-4 w-4 fill-current text-yellow-400" />
+          <span>{brand.average_rating.toFixed(1)} ({brand.total_ratings})</span>
+        </div>
+      )
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-12',
+      cell: (brand) => (
+        <RowActions>
+          <DropdownMenuItem asChild>
+            <Link to={`/brands/${brand.id}`}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View Page
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => openDialog(brand)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setConfirmAction({
+              title: 'Delete brand?',
+              description: `${brand.name} will be removed. Its ${brand.store_count} locations stay as independent stores.`,
+              confirmLabel: 'Delete',
+              destructive: true,
+              onConfirm: () => deleteBrand(brand)
+            })}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </RowActions>
+      )
+    }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Brands</CardTitle>
+            <CardDescription>Group stores into chains; attach a store from its Edit dialog</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Brand
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={brandColumns}
+          rows={brands}
+          getRowKey={(brand) => brand.id}
+          defaultSort={[{ column: 'name', direction: 'asc' }]}
+          emptyMessage="No brands yet."
+        />
+      </CardContent>
+
+      <BrandDialog
+        open={dialogOpen}
+        brand={editingBrand}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchBrands}
+      />
+
+      <ConfirmDialog action={confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)} />
+    </Card>
+  );
+};
+
+export default BrandManager;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+
+interface CategoryBenchmarkProps {
+  categoryId: string | null;
+  storeAverage: number;
+}
+
+interface Benchmark {
+  name: string;
+  average_rating: number;
+  store_count: number;
+}
+
+// Compares a store's average with the average across every store in its category
+const CategoryBenchmark = ({ categoryId, storeAverage }: CategoryBenchmarkProps) => {
+  const [benchmark, setBenchmark] = useState<Benchmark | null>(null);
+
+  useEffect(() => {
+    if (categoryId) {
+      fetchBenchmark(categoryId);
+    } else {
+      setBenchmark(null);
+    }
+  }, [categoryId]);
+
+  const fetchBenchmark = async (id: string) => {
+    const { data } = await supabase
+      .from('category_ratings')
+      .select('name, average_rating, store_count')
+      .eq('id', id)
+      .maybeSingle();
+
+    setBenchmark(data);
+  };
+
+  if (!benchmark) {
+    return null;
+  }
+
+  const difference = storeAverage - benchmark.average_rating;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <Badge>{benchmark.name}</Badge>
+      <span>
+        Category average {benchmark.average_rating.toFixed(1)} across {benchmark.store_count} stores
+      </span>
+      <span className={difference >= 0 ? 'text-green-600' : 'text-destructive'}>
+        ({difference >= 0 ? '+' : ''}{difference.toFixed(1)})
+      </span>
+    </div>
+  );
+};
+
+export default CategoryBenchmark;
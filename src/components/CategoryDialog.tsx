@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { categorySchema, getFieldErrors } from '@/lib/validation';
+
+interface EditableCategory {
+  id: string;
+  name: string;
+}
+
+interface CategoryDialogProps {
+  open: boolean;
+  // Category being renamed; null when creating a new one
+  category: EditableCategory | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const CategoryDialog = ({ open, category, onOpenChange, onSaved }: CategoryDialogProps) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(category?.name || '');
+      setError('');
+    }
+  }, [open, category]);
+
+  const handleSave = async () => {
+    const result = categorySchema.safeParse({ name });
+    if (!result.success) {
+      setError(getFieldErrors(result.error).name);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = category
+      ? await supabase
+          .from('categories')
+          .update({ name: result.data.name })
+          .eq('id', category.id)
+      : await supabase
+          .from('categories')
+          .insert({ name: result.data.name });
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation on categories.name
+        setError('A category with this name already exists');
+      } else {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      }
+    } else {
+      toast({ title: 'Success', description: category ? 'Category renamed successfully' : 'Category created successfully' });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? 'Rename Category' : 'Add New Category'}</DialogTitle>
+          <DialogDescription>Categories classify stores for filtering and benchmarking</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Category Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              className={error ? 'border-destructive' : ''}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : category ? 'Save Changes' : 'Create Category'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryDialog;
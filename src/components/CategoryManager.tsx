@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DropdownMenuItem, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import { Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import RowActions from '@/components/RowActions';
+import CategoryDialog from '@/components/CategoryDialog';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+
+interface Category {
+  id: string;
+  name: string;
+  store_count: number;
+  average_rating: number;
+  total_ratings: number;
+}
+
+interface CategoryManagerProps {
+  // Called after any change so filters elsewhere on the dashboard can reload their options
+  onChanged: () => void;
+}
+
+// Admin section for the store category taxonomy and its benchmark ratings
+const CategoryManager = ({ onChanged }: CategoryManagerProps) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    const { data, error } = await supabase
+      .from('category_ratings')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch categories', variant: 'destructive' });
+    } else {
+      setCategories(data || []);
+    }
+  };
+
+  const handleChanged = () => {
+    fetchCategories();
+    onChanged();
+  };
+
+  const openDialog = (category: Category | null) => {
+    setEditingCategory(category);
+    setDialogOpen(true);
+  };
+
+  const deleteCategory = async (category: Category) => {
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', category.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Category deleted' });
+      handleChanged();
+    }
+  };
+
+  const categoryColumns: DataTableColumn<Category>[] = [
+    { key: 'name', header: 'Name', sortable: true, cell: (category) => category.name },
+    { key: 'store_count', header: 'Stores', sortable: true, cell: (category) => category.store_count },
+    {
+      key: 'average_rating',
+      header: 'Benchmark Rating',
+      sortable: true,
+      cell: (category) => (
+        <div className="flex items-center space-x-1">
+          <Star className="h-4 w-4 fill-current text-yellow-400" />
+          <span>{category.average_rating.toFixed(1)} ({category.total_ratings})</span>
+        </div>
+      )
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-12',
+      cell: (category) => (
+        <RowActions>
+          <DropdownMenuItem onSelect={() => openDialog(category)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onSelect={() => setConfirmAction({
+              title: 'Delete category?',
+              description: `${category.name} will be removed from its ${category.store_count} stores. Rating criteria specific to it are archived with their past scores.`,
+              confirmLabel: 'Delete',
+              destructive: true,
+              onConfirm: () => deleteCategory(category)
+            })}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </RowActions>
+      )
+    }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>Classify stores and compare them against their category's average</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={categoryColumns}
+          rows={categories}
+          getRowKey={(category) => category.id}
+          defaultSort={[{ column: 'name', direction: 'asc' }]}
+          emptyMessage="No categories yet."
+        />
+      </CardContent>
+
+      <CategoryDialog
+        open={dialogOpen}
+        category={editingCategory}
+        onOpenChange={setDialogOpen}
+        onSaved={handleChanged}
+      />
+
+      <ConfirmDialog action={confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)} />
+    </Card>
+  );
+};
+
+export default CategoryManager;
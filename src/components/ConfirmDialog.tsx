@@ -0,0 +1,46 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { buttonVariants } from '@/components/ui/button';
+
+export interface ConfirmAction {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: () => void;
+}
+
+interface ConfirmDialogProps {
+  action: ConfirmAction | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ConfirmDialog = ({ action, onOpenChange }: ConfirmDialogProps) => (
+  <AlertDialog open={action !== null} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>{action?.title}</AlertDialogTitle>
+        <AlertDialogDescription>{action?.description}</AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction
+          onClick={action?.onConfirm}
+          className={action?.destructive ? buttonVariants({ variant: 'destructive' }) : undefined}
+        >
+          {action?.confirmLabel}
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default ConfirmDialog;
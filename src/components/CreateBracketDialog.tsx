@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import StoreShortlistPicker from '@/components/StoreShortlistPicker';
+import { BRACKET_SIZES } from '@/lib/brackets';
+import { bracketSchema, getFieldErrors } from '@/lib/validation';
+
+interface CreateBracketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (bracketId: string) => void;
+}
+
+const CreateBracketDialog = ({ open, onOpenChange, onCreated }: CreateBracketDialogProps) => {
+  const [title, setTitle] = useState('');
+  const [size, setSize] = useState<8 | 16>(8);
+  const [storeIds, setStoreIds] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTitle('');
+      setSize(8);
+      setStoreIds([]);
+      setErrors({});
+    }
+  }, [open]);
+
+  const changeSize = (value: string) => {
+    const next = Number(value) as 8 | 16;
+    setSize(next);
+    setStoreIds(storeIds.slice(0, next));
+  };
+
+  const handleCreate = async () => {
+    const result = bracketSchema.safeParse({ title, size, storeIds });
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    setSaving(true);
+    // Seeding and the first-round draw happen in the database so every participant sees the same bracket
+    const { data, error } = await supabase.rpc('create_bracket', { _title: result.data.title, _store_ids: storeIds });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Bracket created. Share the invite link to get votes in.' });
+      onOpenChange(false);
+      onCreated(data);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Bracket</DialogTitle>
+          <DialogDescription>Stores are seeded by their average rating and face off head to head</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Title</Label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Best burger in town"
+              className={errors.title ? 'border-destructive' : ''}
+            />
+            {errors.title && <p className="text-sm text-destructive">{errors.title}</p>}
+          </div>
+          <div>
+            <Label>Size</Label>
+            <Select value={String(size)} onValueChange={changeSize}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRACKET_SIZES.map((option) => (
+                  <SelectItem key={option} value={String(option)}>{option} stores</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Stores</Label>
+            <StoreShortlistPicker selected={storeIds} onChange={setStoreIds} max={size} />
+            {errors.storeIds && <p className="text-sm text-destructive">{errors.storeIds}</p>}
+          </div>
+          <Button onClick={handleCreate} className="w-full" disabled={saving}>
+            {saving ? 'Creating...' : 'Create Bracket'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateBracketDialog;
@@ -0,0 +1,192 @@
+import { useEffect, useState } from 'react';
+import { addDays, format, startOfToday } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Calendar } from '@/components/ui/calendar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import StoreShortlistPicker from '@/components/StoreShortlistPicker';
+import { getFieldErrors, pollSchema } from '@/lib/validation';
+import { VOTING_METHODS, type VotingMethod } from '@/lib/tabulation';
+
+const MAX_OPTIONS = 10;
+
+interface CreatePollDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (pollId: string) => void;
+}
+
+// datetime-local inputs want local time without a zone suffix
+const defaultDeadline = () => format(addDays(new Date(), 1), "yyyy-MM-dd'T'HH:mm");
+
+const CreatePollDialog = ({ open, onOpenChange, onCreated }: CreatePollDialogProps) => {
+  const { profile } = useAuth();
+  const [form, setForm] = useState({ title: '', description: '', closesAt: defaultDeadline() });
+  const [storeIds, setStoreIds] = useState<string[]>([]);
+  const [votingMethod, setVotingMethod] = useState<VotingMethod>('plurality');
+  const [scheduling, setScheduling] = useState(false);
+  const [dates, setDates] = useState<Date[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm({ title: '', description: '', closesAt: defaultDeadline() });
+      setStoreIds([]);
+      setVotingMethod('plurality');
+      setScheduling(false);
+      setDates([]);
+      setErrors({});
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (!profile) return;
+
+    const result = pollSchema.safeParse({
+      ...form,
+      storeIds,
+      dates: scheduling ? dates.map((date) => format(date, 'yyyy-MM-dd')) : []
+    });
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    setSaving(true);
+    const { data: poll, error } = await supabase
+      .from('polls')
+      .insert({
+        title: result.data.title,
+        description: result.data.description || null,
+        closes_at: new Date(form.closesAt).toISOString(),
+        voting_method: votingMethod,
+        created_by: profile.id
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      setSaving(false);
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const { error: optionsError } = await supabase
+      .from('poll_options')
+      .insert(storeIds.map((storeId) => ({ poll_id: poll.id, store_id: storeId })));
+    const { error: datesError } = !optionsError && result.data.dates.length > 0
+      ? await supabase
+        .from('poll_dates')
+        .insert(result.data.dates.map((date) => ({ poll_id: poll.id, date })))
+      : { error: null };
+    setSaving(false);
+
+    const setupError = optionsError || datesError;
+    if (setupError) {
+      // A poll without its shortlist or dates is useless, so don't leave it behind
+      await supabase.from('polls').delete().eq('id', poll.id);
+      toast({ title: 'Error', description: setupError.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Poll created. Share the invite link with your group.' });
+      onOpenChange(false);
+      onCreated(poll.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Poll</DialogTitle>
+          <DialogDescription>Shortlist a few stores and let your group vote on where to go</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Title</Label>
+            <Input
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Friday team lunch"
+              className={errors.title ? 'border-destructive' : ''}
+            />
+            {errors.title && <p className="text-sm text-destructive">{errors.title}</p>}
+          </div>
+          <div>
+            <Label>Description</Label>
+            <Textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Optional details for participants"
+              className={errors.description ? 'border-destructive' : ''}
+            />
+            {errors.description && <p className="text-sm text-destructive">{errors.description}</p>}
+          </div>
+          <div>
+            <Label>Voting Closes</Label>
+            <Input
+              type="datetime-local"
+              value={form.closesAt}
+              onChange={(e) => setForm({ ...form, closesAt: e.target.value })}
+              className={errors.closesAt ? 'border-destructive' : ''}
+            />
+            {errors.closesAt && <p className="text-sm text-destructive">{errors.closesAt}</p>}
+          </div>
+          <div>
+            <Label>Voting Method</Label>
+            <Select value={votingMethod} onValueChange={(value) => setVotingMethod(value as VotingMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VOTING_METHODS) as VotingMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>{VOTING_METHODS[method].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground mt-1">{VOTING_METHODS[votingMethod].description}</p>
+          </div>
+          <div>
+            <Label>Stores</Label>
+            <StoreShortlistPicker selected={storeIds} onChange={setStoreIds} max={MAX_OPTIONS} />
+            {errors.storeIds && <p className="text-sm text-destructive">{errors.storeIds}</p>}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="poll-scheduling">Also pick a date</Label>
+                <p className="text-sm text-muted-foreground">Participants mark which dates they can make</p>
+              </div>
+              <Switch id="poll-scheduling" checked={scheduling} onCheckedChange={setScheduling} />
+            </div>
+            {scheduling && (
+              <>
+                <Calendar
+                  mode="multiple"
+                  selected={dates}
+                  onSelect={(selected) => setDates(selected || [])}
+                  disabled={{ before: startOfToday() }}
+                  max={7}
+                  className="rounded-md border w-fit mx-auto"
+                />
+                {errors.dates && <p className="text-sm text-destructive">{errors.dates}</p>}
+              </>
+            )}
+          </div>
+          <Button onClick={handleCreate} className="w-full" disabled={saving}>
+            {saving ? 'Creating...' : 'Create Poll'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreatePollDialog;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+interface CriteriaBreakdownProps {
+  // store_ratings.criteria_averages: { criterion_id: average }
+  averages: Json | null;
+}
+
+// Per-criterion averages as labelled bars; renders nothing until a store has criterion scores
+const CriteriaBreakdown = ({ averages }: CriteriaBreakdownProps) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const values = (averages && typeof averages === 'object' && !Array.isArray(averages)
+    ? averages
+    : {}) as Record<string, number>;
+  const criterionIds = Object.keys(values);
+
+  useEffect(() => {
+    if (criterionIds.length > 0) {
+      fetchNames();
+    }
+  }, [criterionIds.join(',')]);
+
+  // Archived criteria are included so older scores stay labelled
+  const fetchNames = async () => {
+    const { data } = await supabase
+      .from('rating_criteria')
+      .select('id, name')
+      .in('id', criterionIds);
+
+    setNames(Object.fromEntries((data || []).map((c) => [c.id, c.name])));
+  };
+
+  if (criterionIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {criterionIds
+        .filter((id) => names[id])
+        .sort((a, b) => names[a].localeCompare(names[b]))
+        .map((id) => (
+          <div key={id} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{names[id]}</span>
+              <span className="text-muted-foreground">{Number(values[id]).toFixed(1)} / 5</span>
+            </div>
+            <Progress value={(Number(values[id]) / 5) * 100} className="h-2" />
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default CriteriaBreakdown;
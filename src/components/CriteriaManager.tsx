@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DropdownMenuItem } from '@/components/ui/dropdown-menu';
+import { Archive, Pencil, Plus, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import RowActions from '@/components/RowActions';
+import CriterionDialog from '@/components/CriterionDialog';
+
+interface Criterion {
+  id: string;
+  name: string;
+  description: string | null;
+  archived_at: string | null;
+  category_id: string | null;
+}
+
+interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+// Admin section for the aspects users score stores on
+const CriteriaManager = () => {
+  const [criteria, setCriteria] = useState<Criterion[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCriterion, setEditingCriterion] = useState<Criterion | null>(null);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+
+  useEffect(() => {
+    fetchCriteria();
+  }, []);
+
+  const fetchCriteria = async () => {
+    const [criteriaResult, categoriesResult] = await Promise.all([
+      supabase
+        .from('rating_criteria')
+        .select('id, name, description, archived_at, category_id')
+        .order('created_at'),
+      supabase
+        .from('categories')
+        .select('id, name')
+        .order('name')
+    ]);
+
+    if (criteriaResult.error || categoriesResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch rating criteria', variant: 'destructive' });
+    } else {
+      setCriteria(criteriaResult.data || []);
+      setCategories(categoriesResult.data || []);
+    }
+  };
+
+  const openDialog = (criterion: Criterion | null) => {
+    setEditingCriterion(criterion);
+    setDialogOpen(true);
+  };
+
+  // Archiving keeps past scores but stops asking for the criterion on new ratings
+  const setArchived = async (criterion: Criterion, archived: boolean) => {
+    const { error } = await supabase
+      .from('rating_criteria')
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', criterion.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: archived ? 'Criterion archived' : 'Criterion restored' });
+      fetchCriteria();
+    }
+  };
+
+  const criterionColumns: DataTableColumn<Criterion>[] = [
+    {
+      key: 'name',
+      header: 'Name',
+      cell: (criterion) => (
+        <span className={criterion.archived_at ? 'text-muted-foreground' : ''}>
+          {criterion.name}
+          {criterion.archived_at && (
+            <Badge variant="outline" className="ml-2 text-muted-foreground">Archived</Badge>
+          )}
+        </span>
+      )
+    },
+    {
+      key: 'description',
+      header: 'Description',
+      cell: (criterion) => criterion.description || <span className="text-muted-foreground">—</span>
+    },
+    {
+      key: 'category',
+      header: 'Applies To',
+      cell: (criterion) => categories.find((c) => c.id === criterion.category_id)?.name || 'All stores'
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'w-12',
+      cell: (criterion) => (
+        <RowActions>
+          <DropdownMenuItem onSelect={() => openDialog(criterion)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </DropdownMenuItem>
+          {criterion.archived_at ? (
+            <DropdownMenuItem onSelect={() => setArchived(criterion, false)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onSelect={() => setArchived(criterion, true)}>
+              <Archive className="h-4 w-4 mr-2" />
+              Archive
+            </DropdownMenuItem>
+          )}
+        </RowActions>
+      )
+    }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Rating Criteria</CardTitle>
+            <CardDescription>The overall rating is the rounded average of these scores</CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Criterion
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <DataTable
+          columns={criterionColumns}
+          rows={criteria}
+          getRowKey={(criterion) => criterion.id}
+          emptyMessage="No criteria defined. Users rate stores with a single star rating."
+        />
+      </CardContent>
+
+      <CriterionDialog
+        open={dialogOpen}
+        criterion={editingCriterion}
+        categories={categories}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchCriteria}
+      />
+    </Card>
+  );
+};
+
+export default CriteriaManager;
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { criterionSchema, getFieldErrors } from '@/lib/validation';
+
+interface EditableCriterion {
+  id: string;
+  name: string;
+  description: string | null;
+  category_id: string | null;
+}
+
+interface CategoryOption {
+  id: string;
+  name: string;
+}
+
+// Select can't hold an empty value, so this stands in for "every category"
+const ALL_CATEGORIES = 'all';
+
+interface CriterionDialogProps {
+  open: boolean;
+  // Criterion being edited; null when creating a new one
+  criterion: EditableCriterion | null;
+  categories: CategoryOption[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const CriterionDialog = ({ open, criterion, categories, onOpenChange, onSaved }: CriterionDialogProps) => {
+  const [form, setForm] = useState({ name: '', description: '', categoryId: ALL_CATEGORIES });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm({
+        name: criterion?.name || '',
+        description: criterion?.description || '',
+        categoryId: criterion?.category_id || ALL_CATEGORIES
+      });
+      setErrors({});
+    }
+  }, [open, criterion]);
+
+  const handleSave = async () => {
+    const result = criterionSchema.safeParse(form);
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    const values = {
+      name: result.data.name,
+      description: result.data.description || null,
+      category_id: form.categoryId === ALL_CATEGORIES ? null : form.categoryId
+    };
+
+    setSaving(true);
+    const { error } = criterion
+      ? await supabase
+          .from('rating_criteria')
+          .update(values)
+          .eq('id', criterion.id)
+      : await supabase
+          .from('rating_criteria')
+          .insert(values);
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation on rating_criteria.name
+        setErrors({ name: 'A criterion with this name already exists' });
+      } else {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      }
+    } else {
+      toast({ title: 'Success', description: criterion ? 'Criterion updated successfully' : 'Criterion created successfully' });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{criterion ? 'Edit Criterion' : 'Add New Criterion'}</DialogTitle>
+          <DialogDescription>Users score every active criterion when they rate a store</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Name</Label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Service"
+              className={errors.name ? 'border-destructive' : ''}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+          <div>
+            <Label>Description (Optional)</Label>
+            <Textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={errors.description ? 'border-destructive' : ''}
+            />
+            {errors.description && <p className="text-sm text-destructive">{errors.description}</p>}
+          </div>
+          <div>
+            <Label>Applies To</Label>
+            <Select value={form.categoryId} onValueChange={(value) => setForm({ ...form, categoryId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All stores</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>{category.name} stores only</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : criterion ? 'Save Changes' : 'Create Criterion'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CriterionDialog;
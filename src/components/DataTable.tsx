@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { sortRows, toggleSort, type SortRule } from '@/lib/table-query';
+
+export interface DataTableColumn<T> {
+  key: string;
+  header: string;
+  cell: (row: T) => React.ReactNode;
+  sortable?: boolean;
+  // Value used when the table sorts rows itself; defaults to row[key]
+  sortValue?: (row: T) => string | number | null | undefined;
+  className?: string;
+}
+
+interface DataTableProps<T> {
+  columns: DataTableColumn<T>[];
+  rows: T[];
+  getRowKey: (row: T) => string;
+  // Controlled mode: rows arrive already sorted (e.g. by the server) and changes are reported up
+  sort?: SortRule[];
+  onSortChange?: (sort: SortRule[]) => void;
+  // Uncontrolled mode: the table keeps its own sort state and sorts rows locally
+  defaultSort?: SortRule[];
+  // Makes rows clickable and focusable; Enter or Space activates the focused row
+  onRowClick?: (row: T) => void;
+  emptyMessage?: React.ReactNode;
+}
+
+const DataTable = <T,>({
+  columns,
+  rows,
+  getRowKey,
+  sort,
+  onSortChange,
+  defaultSort = [],
+  onRowClick,
+  emptyMessage = 'No results found.'
+}: DataTableProps<T>) => {
+  const [localSort, setLocalSort] = useState<SortRule[]>(defaultSort);
+  const controlled = sort !== undefined;
+  const activeSort = controlled ? sort : localSort;
+
+  const handleSort = (column: string, multi: boolean) => {
+    const nextSort = toggleSort(activeSort, column, multi);
+    if (!controlled) {
+      setLocalSort(nextSort);
+    }
+    onSortChange?.(nextSort);
+  };
+
+  const visibleRows = controlled
+    ? rows
+    : sortRows(rows, activeSort, (row, column) => {
+        const definition = columns.find((c) => c.key === column);
+        return definition?.sortValue
+          ? definition.sortValue(row)
+          : (row as Record<string, string | number | null | undefined>)[column];
+      });
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {columns.map((column) => {
+            if (!column.sortable) {
+              return <TableHead key={column.key} className={column.className}>{column.header}</TableHead>;
+            }
+
+            const ruleIndex = activeSort.findIndex((rule) => rule.column === column.key);
+            const rule = activeSort[ruleIndex];
+            const SortIcon = !rule ? ArrowUpDown : rule.direction === 'asc' ? ArrowUp : ArrowDown;
+
+            return (
+              <TableHead
+                key={column.key}
+                className={column.className}
+                aria-sort={!rule ? 'none' : rule.direction === 'asc' ? 'ascending' : 'descending'}
+              >
+                <button
+                  type="button"
+                  onClick={(e) => handleSort(column.key, e.shiftKey)}
+                  title="Click to sort, Shift+click to sort by several columns"
+                  className="-ml-2 inline-flex h-8 items-center gap-1 rounded-md px-2 hover:bg-accent hover:text-accent-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  {column.header}
+                  <SortIcon className={cn('h-4 w-4', rule ? 'text-foreground' : 'text-muted-foreground')} />
+                  {rule && activeSort.length > 1 && (
+                    <span className="text-xs text-muted-foreground" aria-label={`sort priority ${ruleIndex + 1}`}>
+                      {ruleIndex + 1}
+                    </span>
+                  )}
+                </button>
+              </TableHead>
+            );
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {visibleRows.length > 0 ? (
+          visibleRows.map((row) => (
+            <TableRow
+              key={getRowKey(row)}
+              {...(onRowClick && {
+                onClick: () => onRowClick(row),
+                onKeyDown: (e: React.KeyboardEvent) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onRowClick(row);
+                  }
+                },
+                tabIndex: 0,
+                className: 'cursor-pointer focus-visible:outline-none focus-visible:bg-muted/50'
+              })}
+            >
+              {columns.map((column) => (
+                <TableCell key={column.key} className={column.className}>
+                  {column.cell(row)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))
+        ) : (
+          <TableRow>
+            <TableCell colSpan={columns.length} className="text-center text-muted-foreground py-6">
+              {emptyMessage}
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default DataTable;
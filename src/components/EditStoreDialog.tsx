@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getFieldErrors, parseTags, storeSchema, tagsSchema } from '@/lib/validation';
+import { escapeLike } from '@/lib/table-query';
+
+interface EditableStore {
+  id: string;
+  name: string;
+  email: string;
+  address: string;
+  owner_id: string;
+  brand_id: string | null;
+  category_id: string | null;
+  tags: string[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+// Select can't hold an empty value, so this stands in for "no brand" or "no category"
+const NONE = 'none';
+
+interface EditStoreDialogProps {
+  store: EditableStore | null;
+  categories: Option[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EditStoreDialog = ({ store, categories, onOpenChange, onSaved }: EditStoreDialogProps) => {
+  const [form, setForm] = useState({ name: '', email: '', address: '', ownerEmail: '' });
+  const [brandId, setBrandId] = useState(NONE);
+  const [brands, setBrands] = useState<Option[]>([]);
+  const [categoryId, setCategoryId] = useState(NONE);
+  const [tags, setTags] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (store) {
+      setForm({ name: store.name, email: store.email, address: store.address, ownerEmail: '' });
+      setBrandId(store.brand_id || NONE);
+      setCategoryId(store.category_id || NONE);
+      setTags(store.tags.join(', '));
+      setErrors({});
+      fetchOwnerEmail(store.owner_id);
+      fetchBrands();
+    }
+  }, [store]);
+
+  const fetchBrands = async () => {
+    const { data } = await supabase
+      .from('brands')
+      .select('id, name')
+      .order('name');
+
+    setBrands(data || []);
+  };
+
+  const fetchOwnerEmail = async (ownerId: string) => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', ownerId)
+      .single();
+
+    if (data) {
+      setForm(prev => ({ ...prev, ownerEmail: data.email }));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!store) return;
+
+    const result = storeSchema.safeParse(form);
+    const tagsResult = tagsSchema.safeParse(parseTags(tags));
+    if (!result.success || !tagsResult.success) {
+      setErrors({
+        ...(result.success ? {} : getFieldErrors(result.error)),
+        ...(tagsResult.success ? {} : { tags: tagsResult.error.errors[0].message })
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    // Reassigning the store is just pointing owner_id at a different profile. Emails are
+    // matched case-insensitively, and only active store owners can take a store.
+    const { data: ownerProfile, error: ownerError } = await supabase
+      .from('profiles')
+      .select('id')
+      .ilike('email', escapeLike(form.ownerEmail.trim()))
+      .eq('role', 'store_owner')
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (ownerError || !ownerProfile) {
+      setSaving(false);
+      setErrors({ ownerEmail: 'No active store owner has this email' });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('stores')
+      .update({
+        name: form.name,
+        email: form.email,
+        address: form.address,
+        owner_id: ownerProfile.id,
+        brand_id: brandId === NONE ? null : brandId,
+        category_id: categoryId === NONE ? null : categoryId,
+        tags: tagsResult.data
+      })
+      .eq('id', store.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Store updated successfully' });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={store !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Store</DialogTitle>
+          <DialogDescription>Update store details, reassign it to another owner or attach it to a brand</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Store Name</Label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={errors.name ? 'border-destructive' : ''}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+          <div>
+            <Label>Store Email</Label>
+            <Input
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className={errors.email ? 'border-destructive' : ''}
+            />
+            {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+          </div>
+          <div>
+            <Label>Store Address</Label>
+            <Textarea
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              className={errors.address ? 'border-destructive' : ''}
+            />
+            {errors.address && <p className="text-sm text-destructive">{errors.address}</p>}
+          </div>
+          <div>
+            <Label>Owner Email</Label>
+            <Input
+              type="email"
+              value={form.ownerEmail}
+              onChange={(e) => setForm({ ...form, ownerEmail: e.target.value })}
+              className={errors.ownerEmail ? 'border-destructive' : ''}
+            />
+            {errors.ownerEmail && <p className="text-sm text-destructive">{errors.ownerEmail}</p>}
+          </div>
+          <div>
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No category</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Tags</Label>
+            <Input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. vegan, late night, outdoor seating"
+              className={errors.tags ? 'border-destructive' : ''}
+            />
+            {errors.tags
+              ? <p className="text-sm text-destructive">{errors.tags}</p>
+              : <p className="text-sm text-muted-foreground">Separate tags with commas</p>}
+          </div>
+          <div>
+            <Label>Brand</Label>
+            <Select value={brandId} onValueChange={setBrandId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No brand</SelectItem>
+                {brands.map((brand) => (
+                  <SelectItem key={brand.id} value={brand.id}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditStoreDialog;
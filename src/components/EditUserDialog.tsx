@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getFieldErrors, userSchema } from '@/lib/validation';
+
+type Role = 'admin' | 'normal_user' | 'store_owner';
+
+interface EditableUser {
+  id: string;
+  name: string;
+  email: string;
+  address?: string;
+  role: Role;
+}
+
+interface EditUserDialogProps {
+  user: EditableUser | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Email and password stay with the account owner, who changes them through Supabase's confirmation flows
+const editUserSchema = userSchema.pick({ name: true, address: true, role: true });
+
+const EditUserDialog = ({ user, onOpenChange, onSaved }: EditUserDialogProps) => {
+  const [form, setForm] = useState({ name: '', address: '', role: 'normal_user' as Role });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      setForm({ name: user.name, address: user.address || '', role: user.role });
+      setErrors({});
+    }
+  }, [user]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const result = editUserSchema.safeParse(form);
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        name: form.name,
+        address: form.address || null,
+        role: form.role
+      })
+      .eq('id', user.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'User updated successfully' });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={user !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit User</DialogTitle>
+          <DialogDescription>{user?.email}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Name</Label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={errors.name ? 'border-destructive' : ''}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+          <div>
+            <Label>Address</Label>
+            <Textarea
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              className={errors.address ? 'border-destructive' : ''}
+            />
+            {errors.address && <p className="text-sm text-destructive">{errors.address}</p>}
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as Role })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="normal_user">Normal User</SelectItem>
+                <SelectItem value="store_owner">Store Owner</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+            {errors.role && <p className="text-sm text-destructive">{errors.role}</p>}
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditUserDialog;
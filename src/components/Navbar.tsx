@@ -1,7 +1,7 @@
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { Link, useNavigate } from 'react-router-dom';
-import { LogOut, User, Shield, Store } from 'lucide-react';
+import { Bookmark, LogOut, User, Shield, Store, Trophy, Vote } from 'lucide-react';
 
 const Navbar = () => {
   const { user, profile, signOut } = useAuth();
@@ -52,9 +52,24 @@ const Navbar = () => {
               <span>{getRoleDisplay()}</span>
             </div>
             
-            <div className="text-sm text-foreground">
+            <Link to="/polls" className="flex items-center space-x-1 text-sm text-foreground hover:underline">
+              <Vote className="h-4 w-4" />
+              <span>Polls</span>
+            </Link>
+
+            <Link to="/brackets" className="flex items-center space-x-1 text-sm text-foreground hover:underline">
+              <Trophy className="h-4 w-4" />
+              <span>Brackets</span>
+            </Link>
+
+            <Link to="/lists" className="flex items-center space-x-1 text-sm text-foreground hover:underline">
+              <Bookmark className="h-4 w-4" />
+              <span>Lists</span>
+            </Link>
+
+            <Link to="/profile" className="text-sm text-foreground hover:underline">
               {profile.name}
-            </div>
+            </Link>
             
             <Button
               variant="outline"
@@ -0,0 +1,25 @@
+import { Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { OpenStatus } from '@/lib/opening-hours';
+
+interface OpenStatusBadgeProps {
+  status: OpenStatus | null;
+}
+
+// Renders nothing for stores that haven't listed their hours
+const OpenStatusBadge = ({ status }: OpenStatusBadgeProps) => {
+  if (!status) return null;
+
+  return (
+    <Badge
+      variant={status.open ? 'default' : 'outline'}
+      className={cn('w-fit', status.open ? 'bg-green-600 hover:bg-green-600' : 'text-muted-foreground')}
+    >
+      <Clock className="h-3 w-3 mr-1" />
+      {status.open ? 'Open' : 'Closed'} · {status.label}
+    </Badge>
+  );
+};
+
+export default OpenStatusBadge;
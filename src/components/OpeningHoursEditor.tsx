@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { WEEKDAYS, formatTime, getTimeZones } from '@/lib/opening-hours';
+import { closureSchema, getFieldErrors, openingRangeSchema } from '@/lib/validation';
+
+interface OpeningHoursEditorProps {
+  storeId: string;
+}
+
+interface Range {
+  opens_at: string;
+  closes_at: string;
+}
+
+interface Closure {
+  id: string;
+  closes_on: string;
+  reason: string | null;
+}
+
+const emptyWeek = (): Range[][] => WEEKDAYS.map(() => []);
+
+// Owner card for the weekly schedule and one-off closures, all in the store's own time zone
+const OpeningHoursEditor = ({ storeId }: OpeningHoursEditorProps) => {
+  const [timeZone, setTimeZone] = useState('UTC');
+  // The zone as last loaded or saved, so an unchanged zone isn't written again
+  const [savedTimeZone, setSavedTimeZone] = useState('UTC');
+  const [week, setWeek] = useState<Range[][]>(emptyWeek);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [newClosure, setNewClosure] = useState({ closes_on: '', reason: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setErrors({});
+    fetchTimeZone();
+    fetchHours();
+    fetchClosures();
+  }, [storeId]);
+
+  const fetchTimeZone = async () => {
+    const { data } = await supabase
+      .from('stores')
+      .select('time_zone')
+      .eq('id', storeId)
+      .maybeSingle();
+
+    setTimeZone(data?.time_zone || 'UTC');
+    setSavedTimeZone(data?.time_zone || 'UTC');
+  };
+
+  const fetchHours = async () => {
+    const { data, error } = await supabase
+      .from('store_opening_hours')
+      .select('weekday, opens_at, closes_at')
+      .eq('store_id', storeId)
+      .order('opens_at');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch opening hours', variant: 'destructive' });
+      return;
+    }
+
+    const next = emptyWeek();
+    (data || []).forEach((range) => {
+      next[range.weekday].push({ opens_at: formatTime(range.opens_at), closes_at: formatTime(range.closes_at) });
+    });
+    setWeek(next);
+  };
+
+  const fetchClosures = async () => {
+    const { data, error } = await supabase
+      .from('store_closures')
+      .select('id, closes_on, reason')
+      .eq('store_id', storeId)
+      .gte('closes_on', format(new Date(), 'yyyy-MM-dd'))
+      .order('closes_on');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch closures', variant: 'destructive' });
+    } else {
+      setClosures(data || []);
+    }
+  };
+
+  const updateDay = (weekday: number, ranges: Range[]) => {
+    setWeek(week.map((day, index) => (index === weekday ? ranges : day)));
+  };
+
+  const updateRange = (weekday: number, index: number, patch: Partial<Range>) => {
+    updateDay(weekday, week[weekday].map((range, i) => (i === index ? { ...range, ...patch } : range)));
+  };
+
+  const saveHours = async () => {
+    const rangeErrors: Record<string, string> = {};
+    week.forEach((ranges, weekday) => {
+      ranges.forEach((range, index) => {
+        const result = openingRangeSchema.safeParse(range);
+        if (!result.success) {
+          rangeErrors[`${weekday}-${index}`] = result.error.errors[0].message;
+        }
+      });
+    });
+    setErrors(rangeErrors);
+    if (Object.keys(rangeErrors).length > 0) return;
+
+    setSaving(true);
+    if (timeZone !== savedTimeZone) {
+      const { error } = await supabase
+        .from('stores')
+        .update({ time_zone: timeZone })
+        .eq('id', storeId);
+
+      if (error) {
+        setSaving(false);
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        return;
+      }
+      setSavedTimeZone(timeZone);
+    }
+
+    const { error } = await supabase.rpc('set_store_opening_hours', {
+      _store_id: storeId,
+      _hours: week.flatMap((ranges, weekday) => ranges.map((range) => ({ weekday, ...range })))
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Opening hours saved' });
+    }
+  };
+
+  const addClosure = async () => {
+    const result = closureSchema.safeParse(newClosure);
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    const { error } = await supabase
+      .from('store_closures')
+      .insert({
+        store_id: storeId,
+        closes_on: newClosure.closes_on,
+        reason: newClosure.reason.trim() || null
+      });
+
+    if (error) {
+      const description = error.code === '23505' ? 'That date is already marked as closed' : error.message;
+      toast({ title: 'Error', description, variant: 'destructive' });
+    } else {
+      setNewClosure({ closes_on: '', reason: '' });
+      setErrors({});
+      fetchClosures();
+    }
+  };
+
+  const deleteClosure = async (closure: Closure) => {
+    const { error } = await supabase
+      .from('store_closures')
+      .delete()
+      .eq('id', closure.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      fetchClosures();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Opening Hours</CardTitle>
+        <CardDescription>
+          Times are in the store's local time zone. A closing time earlier than the opening time runs past midnight.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-xs">
+          <Label>Time Zone</Label>
+          <Select value={timeZone} onValueChange={setTimeZone}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getTimeZones().map((zone) => (
+                <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          {WEEKDAYS.map((day, weekday) => (
+            <div key={day} className="grid grid-cols-1 md:grid-cols-[8rem_1fr] gap-2 items-start">
+              <p className="text-sm font-medium pt-2">{day}</p>
+              <div className="space-y-2">
+                {week[weekday].length === 0 && (
+                  <p className="text-sm text-muted-foreground pt-2">Closed</p>
+                )}
+                {week[weekday].map((range, index) => (
+                  <div key={index}>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        aria-label={`${day} opening time`}
+                        value={range.opens_at}
+                        onChange={(e) => updateRange(weekday, index, { opens_at: e.target.value })}
+                        className="w-32"
+                      />
+                      <span className="text-muted-foreground">to</span>
+                      <Input
+                        type="time"
+                        aria-label={`${day} closing time`}
+                        value={range.closes_at}
+                        onChange={(e) => updateRange(weekday, index, { closes_at: e.target.value })}
+                        className={`w-32 ${errors[`${weekday}-${index}`] ? 'border-destructive' : ''}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove hours"
+                        onClick={() => updateDay(weekday, week[weekday].filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {errors[`${weekday}-${index}`] && (
+                      <p className="text-sm text-destructive">{errors[`${weekday}-${index}`]}</p>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateDay(weekday, [...week[weekday], { opens_at: '09:00', closes_at: '17:00' }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Hours
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={saveHours} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Hours'}
+        </Button>
+
+        <div className="space-y-3 border-t pt-6">
+          <div>
+            <p className="font-medium">Closures</p>
+            <p className="text-sm text-muted-foreground">Holidays and other days the store is closed all day</p>
+          </div>
+          {closures.length > 0 ? (
+            <ul className="space-y-2">
+              {closures.map((closure) => (
+                <li key={closure.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium">{format(parseISO(closure.closes_on), 'EEE, MMM d, yyyy')}</p>
+                    {closure.reason && <p className="text-sm text-muted-foreground">{closure.reason}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove closure"
+                    onClick={() => deleteClosure(closure)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No upcoming closures.</p>
+          )}
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              type="date"
+              aria-label="Closure date"
+              value={newClosure.closes_on}
+              onChange={(e) => setNewClosure({ ...newClosure, closes_on: e.target.value })}
+              className={`md:w-44 ${errors.closes_on ? 'border-destructive' : ''}`}
+            />
+            <Input
+              placeholder="Reason (optional)"
+              value={newClosure.reason}
+              onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+              className={errors.reason ? 'border-destructive' : ''}
+            />
+            <Button variant="outline" onClick={addClosure}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Closure
+            </Button>
+          </div>
+          {(errors.closes_on || errors.reason) && (
+            <p className="text-sm text-destructive">{errors.closes_on || errors.reason}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OpeningHoursEditor;
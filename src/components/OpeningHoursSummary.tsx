@@ -0,0 +1,53 @@
+import { format, parseISO } from 'date-fns';
+import { WEEKDAYS, formatTime, type OpeningHours, type StoreClosure } from '@/lib/opening-hours';
+
+interface OpeningHoursSummaryProps {
+  hours: OpeningHours[];
+  closures: StoreClosure[];
+  timeZone: string;
+}
+
+// Read-only weekly schedule plus upcoming closures, as listed by the owner
+const OpeningHoursSummary = ({ hours, closures, timeZone }: OpeningHoursSummaryProps) => {
+  if (hours.length === 0) {
+    return <p className="text-sm text-muted-foreground">This store hasn't listed its opening hours yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-[8rem_1fr] gap-y-1 text-sm">
+        {WEEKDAYS.map((day, weekday) => {
+          const ranges = hours
+            .filter((range) => range.weekday === weekday)
+            .sort((a, b) => a.opens_at.localeCompare(b.opens_at));
+          return (
+            <div key={day} className="contents">
+              <dt className="font-medium">{day}</dt>
+              <dd className={ranges.length === 0 ? 'text-muted-foreground' : ''}>
+                {ranges.length > 0
+                  ? ranges.map((range) => `${formatTime(range.opens_at)} – ${formatTime(range.closes_at)}`).join(', ')
+                  : 'Closed'}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+      <p className="text-xs text-muted-foreground">Times shown in {timeZone}</p>
+      {closures.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Upcoming Closures</p>
+          <ul className="text-sm text-muted-foreground">
+            {closures.map((closure) => (
+              <li key={closure.closes_on}>
+                {format(parseISO(closure.closes_on), 'EEE, MMM d')}
+                {closure.reason && ` · ${closure.reason}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpeningHoursSummary;
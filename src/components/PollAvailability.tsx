@@ -0,0 +1,69 @@
+import { format, parseISO } from 'date-fns';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import type { Availability, CandidateDate } from '@/lib/scheduling';
+
+interface PollAvailabilityProps {
+  dates: CandidateDate[];
+  availability: Availability[];
+  participantNames: Record<string, string>;
+  profileId: string | undefined;
+  isOpen: boolean;
+  saving: boolean;
+  // Shortlisted stores known to be shut on each date, by date id
+  closedStores: Record<string, string[]>;
+  onToggle: (dateId: string, available: boolean) => void;
+}
+
+// One row per candidate date: the viewer's own checkbox, how many can make it and who
+const PollAvailability = ({
+  dates,
+  availability,
+  participantNames,
+  profileId,
+  isOpen,
+  saving,
+  closedStores,
+  onToggle
+}: PollAvailabilityProps) => {
+  const participantCount = Object.keys(participantNames).length;
+
+  return (
+    <div className="space-y-3">
+      {dates.map((candidate) => {
+        const available = availability.filter((entry) => entry.date_id === candidate.id).map((entry) => entry.user_id);
+        const isMine = profileId !== undefined && available.includes(profileId);
+        const closed = closedStores[candidate.id] || [];
+
+        return (
+          <div key={candidate.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-3 font-medium">
+                <Checkbox
+                  checked={isMine}
+                  disabled={!isOpen || saving}
+                  onCheckedChange={(checked) => onToggle(candidate.id, checked === true)}
+                />
+                {format(parseISO(candidate.date), 'EEEE, MMM d')}
+              </label>
+              <span className="text-sm text-muted-foreground">
+                {available.length} of {participantCount} can make it
+              </span>
+            </div>
+            <Progress value={participantCount > 0 ? (available.length / participantCount) * 100 : 0} className="h-2" />
+            {available.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {available.map((userId) => participantNames[userId] ?? 'Former participant').join(', ')}
+              </p>
+            )}
+            {closed.length > 0 && (
+              <p className="text-sm text-destructive">Closed that day: {closed.join(', ')}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PollAvailability;
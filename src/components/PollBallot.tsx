@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowDown, ArrowUp, Check, Plus, X } from 'lucide-react';
+import type { VotingMethod } from '@/lib/tabulation';
+
+export interface BallotOption {
+  id: string;
+  storeId: string;
+  name: string;
+  address: string | null;
+}
+
+interface PollBallotProps {
+  method: VotingMethod;
+  options: BallotOption[];
+  // The participant's saved choices, in rank order for ranked methods
+  savedBallot: string[];
+  saving: boolean;
+  onSubmit: (optionIds: string[]) => void;
+}
+
+const OptionLabel = ({ option }: { option: BallotOption }) => (
+  <div className="min-w-0">
+    <Link to={`/stores/${option.storeId}`} className="font-medium hover:underline">{option.name}</Link>
+    {option.address && <p className="text-sm text-muted-foreground truncate">{option.address}</p>}
+  </div>
+);
+
+// Voting controls for each method: one click for single choice, checkboxes for approval,
+// and an orderable list for ranked choice and Borda
+const PollBallot = ({ method, options, savedBallot, saving, onSubmit }: PollBallotProps) => {
+  const [ballot, setBallot] = useState<string[]>(savedBallot);
+  // Compared by value, since the parent rebuilds the saved ballot on every render
+  const savedKey = savedBallot.join(',');
+
+  useEffect(() => {
+    setBallot(savedBallot);
+  }, [savedKey]);
+
+  const isDirty = ballot.join(',') !== savedKey;
+  const optionById = (id: string) => options.find((option) => option.id === id);
+
+  if (method === 'plurality') {
+    return (
+      <div className="space-y-2">
+        {options.map((option) => {
+          const isChoice = savedBallot[0] === option.id;
+          return (
+            <div key={option.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <OptionLabel option={option} />
+              <Button
+                size="sm"
+                variant={isChoice ? 'default' : 'outline'}
+                disabled={saving}
+                onClick={() => onSubmit(isChoice ? [] : [option.id])}
+              >
+                {isChoice && <Check className="h-4 w-4 mr-2" />}
+                {isChoice ? 'Your Vote' : 'Vote'}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const saveButton = (
+    <div className="flex gap-2">
+      <Button onClick={() => onSubmit(ballot)} disabled={saving || !isDirty}>
+        {saving ? 'Saving...' : 'Save Ballot'}
+      </Button>
+      {isDirty && (
+        <Button variant="ghost" onClick={() => setBallot(savedBallot)} disabled={saving}>
+          Reset
+        </Button>
+      )}
+    </div>
+  );
+
+  if (method === 'approval') {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          {options.map((option) => (
+            <label key={option.id} className="flex items-center gap-3 rounded-md border p-3 cursor-pointer">
+              <Checkbox
+                checked={ballot.includes(option.id)}
+                onCheckedChange={(checked) => setBallot(checked === true
+                  ? [...ballot, option.id]
+                  : ballot.filter((id) => id !== option.id))}
+              />
+              <OptionLabel option={option} />
+            </label>
+          ))}
+        </div>
+        {saveButton}
+      </div>
+    );
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...ballot];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setBallot(next);
+  };
+
+  const unranked = options.filter((option) => !ballot.includes(option.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Your Ranking</p>
+        {ballot.length === 0 && (
+          <p className="text-sm text-muted-foreground">Add stores below, starting with your favorite.</p>
+        )}
+        {ballot.map((id, index) => {
+          const option = optionById(id);
+          if (!option) return null;
+          return (
+            <div key={id} className="flex items-center gap-3 rounded-md border p-3">
+              <span className="w-6 text-center font-semibold text-muted-foreground">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <OptionLabel option={option} />
+              </div>
+              <Button variant="ghost" size="icon" aria-label="Move up" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move down"
+                disabled={index === ballot.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove from ranking"
+                onClick={() => setBallot(ballot.filter((ballotId) => ballotId !== id))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+      {unranked.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Not Ranked</p>
+          {unranked.map((option) => (
+            <div key={option.id} className="flex items-center justify-between gap-2 rounded-md border border-dashed p-3">
+              <OptionLabel option={option} />
+              <Button size="sm" variant="outline" onClick={() => setBallot([...ballot, option.id])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Rank
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {saveButton}
+    </div>
+  );
+};
+
+export default PollBallot;
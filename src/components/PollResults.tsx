@@ -0,0 +1,94 @@
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { TabulationResult } from '@/lib/tabulation';
+
+interface PollResultsProps {
+  result: TabulationResult;
+  labels: Record<string, { name: string; storeId: string }>;
+  isOpen: boolean;
+}
+
+const SCORE_UNITS: Record<TabulationResult['method'], [string, string]> = {
+  plurality: ['vote', 'votes'],
+  ranked: ['vote', 'votes'],
+  approval: ['approval', 'approvals'],
+  borda: ['point', 'points']
+};
+
+// Final standings plus, for ranked choice, how the vote moved between rounds
+const PollResults = ({ result, labels, isOpen }: PollResultsProps) => {
+  const [singular, plural] = SCORE_UNITS[result.method];
+  const topScore = Math.max(1, ...result.ranking.map((entry) => entry.score));
+  const nameOf = (id: string) => labels[id]?.name ?? 'Store no longer listed';
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {result.ranking.map((entry, index) => (
+          <div key={entry.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="w-5 text-muted-foreground">{index + 1}</span>
+                <Link to={`/stores/${labels[entry.id]?.storeId}`} className="font-medium truncate hover:underline">
+                  {nameOf(entry.id)}
+                </Link>
+                {entry.id === result.winner && <Badge>{isOpen ? 'Leading' : 'Winner'}</Badge>}
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {entry.score} {entry.score === 1 ? singular : plural}
+              </span>
+            </div>
+            <Progress value={(entry.score / topScore) * 100} className="h-2" />
+          </div>
+        ))}
+      </div>
+
+      {result.method === 'ranked' && result.rounds.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Round by Round</p>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Store</TableHead>
+                  {result.rounds.map((round) => (
+                    <TableHead key={round.round} className="text-right">Round {round.round}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.ranking.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-medium">{nameOf(entry.id)}</TableCell>
+                    {result.rounds.map((round) => (
+                      <TableCell
+                        key={round.round}
+                        className={round.eliminated.includes(entry.id) ? 'text-right text-destructive line-through' : 'text-right'}
+                      >
+                        {round.tallies[entry.id] ?? '–'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="text-muted-foreground">Exhausted ballots</TableCell>
+                  {result.rounds.map((round) => (
+                    <TableCell key={round.round} className="text-right text-muted-foreground">{round.exhausted}</TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Ties are broken in favor of the store with the higher directory rating.
+      </p>
+    </div>
+  );
+};
+
+export default PollResults;
@@ -1,5 +1,6 @@
 import { useAuth } from '@/contexts/AuthContext';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -7,7 +8,8 @@ interface ProtectedRouteProps {
 }
 
 const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
-  const { user, profile, loading } = useAuth();
+  const { user, profile, loading, signOut } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -18,7 +20,20 @@ const ProtectedRoute = ({ children, allowedRoles }: ProtectedRouteProps) => {
   }
 
   if (!user) {
-    return <Navigate to="/auth" replace />;
+    // Remember the requested page so shared links survive the sign-in detour
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  if (profile?.deleted_at) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold mb-2">Account Deactivated</h1>
+          <p className="text-muted-foreground">Your account has been deactivated. Please contact the administrator.</p>
+          <Button variant="outline" onClick={signOut}>Sign Out</Button>
+        </div>
+      </div>
+    );
   }
 
   if (allowedRoles && profile && !allowedRoles.includes(profile.role)) {
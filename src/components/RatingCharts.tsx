@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, subDays } from 'date-fns';
+import type { DateRange as DayPickerRange } from 'react-day-picker';
+import { CalendarIcon } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  getRatingDistribution,
+  getRollingAverage,
+  isWithinRange,
+  type DateRange,
+  type TimedRating
+} from '@/lib/rating-stats';
+
+const DEFAULT_RANGE_DAYS = 90;
+const ROLLING_WINDOW_DAYS = 30;
+
+const distributionConfig = {
+  count: { label: 'Ratings', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const trendConfig = {
+  average: { label: `${ROLLING_WINDOW_DAYS}-day average`, color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const getDefaultRange = (): DateRange => {
+  const to = new Date();
+  return { from: subDays(to, DEFAULT_RANGE_DAYS - 1), to };
+};
+
+interface RatingChartsProps {
+  ratings: TimedRating[];
+}
+
+const RatingCharts = ({ ratings }: RatingChartsProps) => {
+  const [range, setRange] = useState<DateRange>(getDefaultRange);
+  // The calendar reports half-finished selections; only complete ranges are applied
+  const [pendingRange, setPendingRange] = useState<DayPickerRange | undefined>(range);
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const distribution = useMemo(
+    () => getRatingDistribution(
+      ratings.filter((r) => isWithinRange(r.created_at, range)).map((r) => r.rating)
+    ).reverse(),
+    [ratings, range]
+  );
+
+  const trend = useMemo(
+    () => getRollingAverage(ratings, range, ROLLING_WINDOW_DAYS),
+    [ratings, range]
+  );
+
+  const handleSelect = (selected: DayPickerRange | undefined) => {
+    setPendingRange(selected);
+    if (selected?.from && selected?.to) {
+      setRange({ from: selected.from, to: selected.to });
+      setPickerOpen(false);
+    }
+  };
+
+  const handleReset = () => {
+    const defaultRange = getDefaultRange();
+    setRange(defaultRange);
+    setPendingRange(defaultRange);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between sm:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Rating Insights</CardTitle>
+          <CardDescription>How customers rated your store over the selected period</CardDescription>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="justify-start font-normal">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                {format(range.from, 'MMM d, yyyy')} – {format(range.to, 'MMM d, yyyy')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={pendingRange}
+                onSelect={handleSelect}
+                defaultMonth={range.from}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Button variant="ghost" onClick={handleReset}>Reset</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Rating Distribution</h3>
+          <ChartContainer config={distributionConfig} className="h-64 w-full aspect-auto">
+            <BarChart data={distribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="stars" tickLine={false} axisLine={false} tickFormatter={(stars) => `${stars}★`} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.stars} stars`} />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Average Over Time</h3>
+          <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto">
+            <LineChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(date) => format(new Date(`${date}T00:00:00`), 'MMM d')}
+              />
+              <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(date) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy')}
+                  />
+                }
+              />
+              <Line dataKey="average" type="monotone" stroke="var(--color-average)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RatingCharts;
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getFieldErrors, reviewSchema } from '@/lib/validation';
+import { getOverallScore } from '@/lib/rating-stats';
+import StarRating from '@/components/StarRating';
+
+interface RatableStore {
+  id: string;
+  name: string;
+  category_id: string | null;
+}
+
+export interface ExistingRating {
+  id: string;
+  rating: number;
+  title: string | null;
+  body: string | null;
+}
+
+interface Criterion {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+interface RatingDialogProps {
+  store: RatableStore | null;
+  // The current user's rating for the store, if they already rated it
+  existingRating: ExistingRating | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const RatingDialog = ({ store, existingRating, onOpenChange, onSaved }: RatingDialogProps) => {
+  const { profile } = useAuth();
+  const [newRating, setNewRating] = useState(0);
+  const [criteria, setCriteria] = useState<Criterion[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [newReview, setNewReview] = useState({ title: '', body: '' });
+  const [reviewErrors, setReviewErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (store) {
+      setNewRating(existingRating?.rating || 0);
+      setNewReview({ title: existingRating?.title || '', body: existingRating?.body || '' });
+      setReviewErrors({});
+      fetchCriteria(store.category_id, existingRating?.id);
+    }
+  }, [store, existingRating]);
+
+  // Global criteria plus any specific to the store's category
+  const fetchCriteria = async (categoryId: string | null, ratingId: string | undefined) => {
+    setCriteria([]);
+    setScores({});
+
+    const [criteriaResult, scoresResult] = await Promise.all([
+      supabase
+        .from('rating_criteria')
+        .select('id, name, description')
+        .is('archived_at', null)
+        .or(categoryId ? `category_id.is.null,category_id.eq.${categoryId}` : 'category_id.is.null')
+        .order('created_at'),
+      ratingId
+        ? supabase
+            .from('rating_scores')
+            .select('criterion_id, score')
+            .eq('rating_id', ratingId)
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (criteriaResult.error || scoresResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch rating criteria', variant: 'destructive' });
+      return;
+    }
+
+    setCriteria(criteriaResult.data || []);
+    setScores(Object.fromEntries((scoresResult.data || []).map((s) => [s.criterion_id, s.score])));
+  };
+
+  // With criteria defined the overall rating is derived from them instead of picked directly
+  const scoredByCriteria = criteria.length > 0;
+  const overallRating = scoredByCriteria
+    ? getOverallScore(criteria.map((c) => scores[c.id]).filter(Boolean))
+    : newRating;
+  const canSubmit = scoredByCriteria
+    ? criteria.every((c) => scores[c.id] > 0)
+    : newRating > 0;
+
+  const handleReviewChange = (field: 'title' | 'body', value: string) => {
+    setNewReview(prev => ({ ...prev, [field]: value }));
+    if (reviewErrors[field]) {
+      setReviewErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleSubmitRating = async () => {
+    if (!store || !profile || !canSubmit) return;
+
+    const result = reviewSchema.safeParse(newReview);
+    if (!result.success) {
+      setReviewErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    // The rating and its criterion scores are saved in one transaction; a trigger then keeps
+    // ratings.rating in step with the scores. Blank fields clear the review, and the database
+    // trims and nulls them as well.
+    setSaving(true);
+    const { error } = await supabase.rpc('save_rating', {
+      _store_id: store.id,
+      _rating: overallRating,
+      _title: result.data.title || null,
+      _body: result.data.body || null,
+      _scores: scoredByCriteria ? Object.fromEntries(criteria.map((c) => [c.id, scores[c.id]])) : {}
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: existingRating ? 'Failed to update rating' : 'Failed to submit rating',
+        variant: 'destructive'
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: existingRating ? 'Rating updated successfully' : 'Rating submitted successfully'
+      });
+      onOpenChange(false);
+      onSaved();
+    }
+  };
+
+  return (
+    <Dialog open={store !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rate {store?.name}</DialogTitle>
+          <DialogDescription>
+            How would you rate your experience with this store?
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {scoredByCriteria ? (
+            <div className="space-y-3">
+              {criteria.map((criterion) => (
+                <div key={criterion.id} className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium">{criterion.name}</p>
+                    {criterion.description && (
+                      <p className="text-xs text-muted-foreground">{criterion.description}</p>
+                    )}
+                  </div>
+                  <StarRating
+                    rating={scores[criterion.id] || 0}
+                    onRatingChange={(score) => setScores(prev => ({ ...prev, [criterion.id]: score }))}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between border-t pt-3">
+                <p className="text-sm font-medium">Overall</p>
+                <StarRating rating={overallRating} />
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center space-y-4">
+              <StarRating
+                rating={newRating}
+                onRatingChange={setNewRating}
+              />
+              <p className="text-sm text-muted-foreground">
+                Click on a star to rate (1-5 stars)
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="review-title">Review Title (Optional)</Label>
+            <Input
+              id="review-title"
+              value={newReview.title}
+              onChange={(e) => handleReviewChange('title', e.target.value)}
+              placeholder="Sum up your visit"
+              className={reviewErrors.title ? 'border-destructive' : ''}
+            />
+            {reviewErrors.title && (
+              <p className="text-sm text-destructive">{reviewErrors.title}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-body">Review (Optional)</Label>
+            <Textarea
+              id="review-body"
+              value={newReview.body}
+              onChange={(e) => handleReviewChange('body', e.target.value)}
+              placeholder="What did you like or dislike?"
+              className={reviewErrors.body ? 'border-destructive' : ''}
+              rows={4}
+            />
+            <div className="flex justify-between text-sm">
+              <span className="text-destructive">{reviewErrors.body}</span>
+              <span className="text-muted-foreground">{newReview.body.length}/2000</span>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              onClick={handleSubmitRating}
+              disabled={!canSubmit || saving}
+              className="flex-1"
+            >
+              {existingRating ? 'Update Rating' : 'Submit Rating'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RatingDialog;
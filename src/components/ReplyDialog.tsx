@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getFieldErrors, replySchema } from '@/lib/validation';
+import ReviewText from '@/components/ReviewText';
+
+interface RepliableRating {
+  id: string;
+  title: string | null;
+  body: string | null;
+  rating_replies: {
+    id: string;
+    body: string;
+  } | null;
+}
+
+interface ReplyDialogProps {
+  rating: RepliableRating | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ReplyDialog = ({ rating, onOpenChange, onSaved }: ReplyDialogProps) => {
+  const [body, setBody] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (rating) {
+      setBody(rating.rating_replies?.body || '');
+      setError('');
+    }
+  }, [rating]);
+
+  const finish = (message: string) => {
+    toast({ title: 'Success', description: message });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  const handleSave = async () => {
+    if (!rating) return;
+
+    const result = replySchema.safeParse({ body });
+    if (!result.success) {
+      setError(getFieldErrors(result.error).body);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = rating.rating_replies
+      ? await supabase
+          .from('rating_replies')
+          .update({ body: result.data.body })
+          .eq('id', rating.rating_replies.id)
+      : await supabase
+          .from('rating_replies')
+          .insert({ rating_id: rating.id, body: result.data.body });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to save reply', variant: 'destructive' });
+    } else {
+      finish(rating.rating_replies ? 'Reply updated successfully' : 'Reply posted successfully');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!rating?.rating_replies) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('rating_replies')
+      .delete()
+      .eq('id', rating.rating_replies.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to remove reply', variant: 'destructive' });
+    } else {
+      finish('Reply removed');
+    }
+  };
+
+  return (
+    <Dialog open={rating !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rating?.rating_replies ? 'Edit Reply' : 'Reply to Review'}</DialogTitle>
+          <DialogDescription>Your reply is shown publicly under the customer's review</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {rating && (
+            <ReviewText title={rating.title} body={rating.body} className="rounded-md border p-3" />
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="reply-body">Reply</Label>
+            <Textarea
+              id="reply-body"
+              value={body}
+              onChange={(e) => {
+                setBody(e.target.value);
+                setError('');
+              }}
+              className={error ? 'border-destructive' : ''}
+              rows={4}
+            />
+            <div className="flex justify-between text-sm">
+              <span className="text-destructive">{error}</span>
+              <span className="text-muted-foreground">{body.length}/1000</span>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button onClick={handleSave} className="flex-1" disabled={saving}>
+              {saving ? 'Saving...' : rating?.rating_replies ? 'Update Reply' : 'Post Reply'}
+            </Button>
+            {rating?.rating_replies && (
+              <Button variant="outline" onClick={handleRemove} className="flex-1" disabled={saving}>
+                Remove Reply
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReplyDialog;
@@ -0,0 +1,49 @@
+import StarRating from '@/components/StarRating';
+import ReviewText from '@/components/ReviewText';
+import ReviewReply from '@/components/ReviewReply';
+
+export interface StoreReview {
+  id: string;
+  rating: number;
+  title: string | null;
+  body: string | null;
+  created_at: string;
+  reviewer_name: string;
+  reply_body: string | null;
+  reply_updated_at: string | null;
+}
+
+interface ReviewListProps {
+  reviews: StoreReview[];
+  emptyMessage?: string;
+}
+
+const ReviewList = ({ reviews, emptyMessage = 'No reviews yet.' }: ReviewListProps) => {
+  if (reviews.length === 0) {
+    return <p className="text-center text-muted-foreground py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      {reviews.map((review) => (
+        <div key={review.id} className="py-4 first:pt-0 last:pb-0 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="font-medium">{review.reviewer_name}</span>
+              <StarRating rating={review.rating} size="sm" />
+            </div>
+            <span className="text-sm text-muted-foreground">
+              {new Date(review.created_at).toLocaleDateString()}
+            </span>
+          </div>
+          <ReviewText title={review.title} body={review.body} />
+          {review.reply_body && review.reply_updated_at && (
+            <ReviewReply body={review.reply_body} updatedAt={review.reply_updated_at} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewList;
@@ -0,0 +1,21 @@
+import { MessageSquareReply } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ReviewReplyProps {
+  body: string;
+  updatedAt: string;
+  className?: string;
+}
+
+// Store owner's public response, shown underneath the review it answers
+const ReviewReply = ({ body, updatedAt, className }: ReviewReplyProps) => (
+  <div className={cn('rounded-md border-l-2 border-primary bg-muted/50 px-3 py-2 space-y-1', className)}>
+    <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+      <MessageSquareReply className="h-3 w-3" />
+      Owner response · {new Date(updatedAt).toLocaleDateString()}
+    </p>
+    <p className="text-sm whitespace-pre-line break-words">{body}</p>
+  </div>
+);
+
+export default ReviewReply;
@@ -0,0 +1,23 @@
+import { cn } from '@/lib/utils';
+
+interface ReviewTextProps {
+  title: string | null;
+  body: string | null;
+  className?: string;
+}
+
+// Written part of a rating; renders nothing for star-only ratings
+const ReviewText = ({ title, body, className }: ReviewTextProps) => {
+  if (!title && !body) {
+    return null;
+  }
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      {title && <p className="font-medium">{title}</p>}
+      {body && <p className="text-sm text-muted-foreground whitespace-pre-line break-words">{body}</p>}
+    </div>
+  );
+};
+
+export default ReviewText;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Heart, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import StoreListDialog from '@/components/StoreListDialog';
+
+export interface SavedStoreList {
+  id: string;
+  name: string;
+  store_list_entries: {
+    store_id: string;
+    position: number;
+  }[];
+}
+
+interface SaveStoreMenuProps {
+  storeId: string;
+  isFavorite: boolean;
+  lists: SavedStoreList[];
+  onChanged: () => void;
+}
+
+// Favorite toggle plus a menu for adding the store to, or removing it from, the user's lists
+const SaveStoreMenu = ({ storeId, isFavorite, lists, onChanged }: SaveStoreMenuProps) => {
+  const { profile } = useAuth();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    setSaving(true);
+    const { error } = await action();
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      onChanged();
+    }
+  };
+
+  const toggleFavorite = () => {
+    if (!profile) return;
+
+    run(() => isFavorite
+      ? supabase
+        .from('store_favorites')
+        .delete()
+        .eq('user_id', profile.id)
+        .eq('store_id', storeId)
+      : supabase
+        .from('store_favorites')
+        .insert({ user_id: profile.id, store_id: storeId }));
+  };
+
+  // New entries go to the end of the list
+  const addToList = (listId: string, entries: SavedStoreList['store_list_entries'] = []) =>
+    run(() => supabase
+      .from('store_list_entries')
+      .insert({
+        list_id: listId,
+        store_id: storeId,
+        position: Math.max(-1, ...entries.map((entry) => entry.position)) + 1
+      }));
+
+  const toggleInList = (list: SavedStoreList, included: boolean) => {
+    if (included) {
+      addToList(list.id, list.store_list_entries);
+    } else {
+      run(() => supabase
+        .from('store_list_entries')
+        .delete()
+        .eq('list_id', list.id)
+        .eq('store_id', storeId));
+    }
+  };
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        aria-pressed={isFavorite}
+        disabled={saving}
+        onClick={toggleFavorite}
+      >
+        <Heart className={cn('h-4 w-4', isFavorite && 'fill-red-500 text-red-500')} />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Save to list" disabled={saving}>
+            <Bookmark className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Save to list</DropdownMenuLabel>
+          {lists.map((list) => (
+            <DropdownMenuCheckboxItem
+              key={list.id}
+              checked={list.store_list_entries.some((entry) => entry.store_id === storeId)}
+              onCheckedChange={(checked) => toggleInList(list, checked === true)}
+            >
+              {list.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+          {lists.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New List...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <StoreListDialog
+        open={createOpen}
+        list={null}
+        onOpenChange={setCreateOpen}
+        onSaved={(listId) => addToList(listId)}
+      />
+    </div>
+  );
+};
+
+export default SaveStoreMenu;
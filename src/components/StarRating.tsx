@@ -0,0 +1,27 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  rating: number;
+  // Makes the stars clickable; omit for a read-only display
+  onRatingChange?: (rating: number) => void;
+  size?: 'sm' | 'md';
+}
+
+const StarRating = ({ rating, onRatingChange, size = 'md' }: StarRatingProps) => (
+  <div className="flex space-x-1">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        className={cn(
+          size === 'sm' ? 'h-4 w-4' : 'h-5 w-5',
+          star <= rating ? 'fill-current text-yellow-400' : 'text-gray-300',
+          onRatingChange && 'cursor-pointer'
+        )}
+        onClick={() => onRatingChange?.(star)}
+      />
+    ))}
+  </div>
+);
+
+export default StarRating;
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getFieldErrors, storeListSchema } from '@/lib/validation';
+
+interface EditableStoreList {
+  id: string;
+  name: string;
+}
+
+interface StoreListDialogProps {
+  open: boolean;
+  // List being renamed; null when creating a new one
+  list: EditableStoreList | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (listId: string) => void;
+}
+
+const StoreListDialog = ({ open, list, onOpenChange, onSaved }: StoreListDialogProps) => {
+  const { profile } = useAuth();
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(list?.name || '');
+      setError('');
+    }
+  }, [open, list]);
+
+  const handleSave = async () => {
+    if (!profile) return;
+
+    const result = storeListSchema.safeParse({ name });
+    if (!result.success) {
+      setError(getFieldErrors(result.error).name);
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = list
+      ? await supabase
+          .from('store_lists')
+          .update({ name: result.data.name })
+          .eq('id', list.id)
+          .select('id')
+          .single()
+      : await supabase
+          .from('store_lists')
+          .insert({ name: result.data.name, user_id: profile.id })
+          .select('id')
+          .single();
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation on store_lists (user_id, name)
+        setError('You already have a list with this name');
+      } else {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      }
+    } else {
+      toast({ title: 'Success', description: list ? 'List renamed' : 'List created' });
+      onOpenChange(false);
+      onSaved(data.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{list ? 'Rename List' : 'New List'}</DialogTitle>
+          <DialogDescription>Lists are private until you choose to share them</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>List Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              placeholder="Lunch spots"
+              className={error ? 'border-destructive' : ''}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <Button onClick={handleSave} className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : list ? 'Save Changes' : 'Create List'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StoreListDialog;
@@ -0,0 +1,56 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import StarRating from '@/components/StarRating';
+
+export interface ListedStore {
+  id: string;
+  name: string;
+  address: string | null;
+  average_rating: number;
+}
+
+interface StoreListEntriesProps {
+  stores: ListedStore[];
+  // Omitted on shared lists, which are read-only
+  onMove?: (index: number, offset: number) => void;
+  onRemove?: (store: ListedStore) => void;
+}
+
+const StoreListEntries = ({ stores, onMove, onRemove }: StoreListEntriesProps) => (
+  <div className="space-y-2">
+    {stores.map((store, index) => (
+      <div key={store.id} className="flex items-center gap-3 rounded-md border p-3">
+        <span className="w-6 text-center font-semibold text-muted-foreground">{index + 1}</span>
+        <div className="flex-1 min-w-0">
+          <Link to={`/stores/${store.id}`} className="font-medium hover:underline">{store.name}</Link>
+          {store.address && <p className="text-sm text-muted-foreground truncate">{store.address}</p>}
+        </div>
+        <StarRating rating={store.average_rating} />
+        {onMove && (
+          <>
+            <Button variant="ghost" size="icon" aria-label="Move up" disabled={index === 0} onClick={() => onMove(index, -1)}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Move down"
+              disabled={index === stores.length - 1}
+              onClick={() => onMove(index, 1)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+        {onRemove && (
+          <Button variant="ghost" size="icon" aria-label="Remove from list" onClick={() => onRemove(store)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default StoreListEntries;
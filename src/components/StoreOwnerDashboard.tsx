@@ -1,10 +1,24 @@
 import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Star, Users, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Star, Users, TrendingUp, MessageSquareReply, ExternalLink, Store as StoreIcon } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import ReviewText from '@/components/ReviewText';
+import ReviewReply from '@/components/ReviewReply';
+import ReplyDialog from '@/components/ReplyDialog';
+import StarRating from '@/components/StarRating';
+import RatingCharts from '@/components/RatingCharts';
+import CriteriaBreakdown from '@/components/CriteriaBreakdown';
+import CategoryBenchmark from '@/components/CategoryBenchmark';
+import OpeningHoursEditor from '@/components/OpeningHoursEditor';
+import StorePhotoManager from '@/components/StorePhotoManager';
+import { getWeightedAverage } from '@/lib/rating-stats';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Store {
   id: string;
@@ -13,93 +27,95 @@ interface Store {
   email: string;
   average_rating: number;
   total_ratings: number;
+  criteria_averages: Json | null;
+  category_id: string | null;
 }
 
 interface RatingWithUser {
   id: string;
   rating: number;
+  title: string | null;
+  body: string | null;
   created_at: string;
   profiles: {
     name: string;
     email: string;
   };
+  rating_replies: {
+    id: string;
+    body: string;
+    updated_at: string;
+  } | null;
 }
 
-const StarRating = ({ rating }: { rating: number }) => {
-  return (
-    <div className="flex space-x-1">
-      {[1, 2, 3, 4, 5].map((star) => (
-        <Star
-          key={star}
-          className={`h-4 w-4 ${
-            star <= rating ? 'fill-current text-yellow-400' : 'text-gray-300'
-          }`}
-        />
-      ))}
-    </div>
-  );
-};
 
 const StoreOwnerDashboard = () => {
   const { profile } = useAuth();
-  const [store, setStore] = useState<Store | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [stores, setStores] = useState<Store[]>([]);
   const [ratings, setRatings] = useState<RatingWithUser[]>([]);
   const [loading, setLoading] = useState(true);
+  const [replyTarget, setReplyTarget] = useState<RatingWithUser | null>(null);
+
+  // The selected store lives in the URL so each location's dashboard can be bookmarked
+  const store = stores.find((s) => s.id === searchParams.get('store')) || stores[0] || null;
 
   useEffect(() => {
-    fetchData();
+    fetchStores();
   }, [profile]);
 
-  const fetchData = async () => {
-    if (!profile) return;
-    
-    setLoading(true);
-    await Promise.all([fetchStore(), fetchRatings()]);
-    setLoading(false);
-  };
+  useEffect(() => {
+    if (store) {
+      fetchRatings(store.id);
+    }
+  }, [store?.id]);
 
-  const fetchStore = async () => {
+  const fetchStores = async () => {
     if (!profile) return;
 
+    setLoading(true);
     const { data, error } = await supabase
       .from('store_ratings')
       .select('*')
       .eq('owner_id', profile.id)
-      .single();
+      .order('name');
     
     if (error) {
-      if (error.code !== 'PGRST116') { // Not found error
-        toast({ title: 'Error', description: 'Failed to fetch store', variant: 'destructive' });
-      }
+      toast({ title: 'Error', description: 'Failed to fetch stores', variant: 'destructive' });
     } else {
-      setStore(data);
+      setStores(data || []);
     }
+    setLoading(false);
   };
 
-  const fetchRatings = async () => {
-    if (!profile) return;
-
-    // First get the store ID
-    const { data: storeData } = await supabase
-      .from('stores')
-      .select('id')
-      .eq('owner_id', profile.id)
-      .single();
-
-    if (!storeData) return;
+  const selectStore = (storeId: string) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.set('store', storeId);
+      return next;
+    });
+  };
 
+  const fetchRatings = async (storeId: string) => {
     const { data, error } = await supabase
       .from('ratings')
       .select(`
         id,
         rating,
+        title,
+        body,
         created_at,
         profiles:user_id (
           name,
           email
+        ),
+        rating_replies (
+          id,
+          body,
+          updated_at
         )
       `)
-      .eq('store_id', storeData.id)
+      .eq('store_id', storeId)
       .order('created_at', { ascending: false });
     
     if (error) {
@@ -109,6 +125,87 @@ const StoreOwnerDashboard = () => {
     }
   };
 
+  const ratingColumns: DataTableColumn<RatingWithUser>[] = [
+    {
+      key: 'customer',
+      header: 'Customer',
+      sortable: true,
+      className: 'font-medium',
+      sortValue: (rating) => rating.profiles?.name,
+      cell: (rating) => rating.profiles?.name || 'Unknown'
+    },
+    {
+      key: 'email',
+      header: 'Email',
+      sortable: true,
+      sortValue: (rating) => rating.profiles?.email,
+      cell: (rating) => rating.profiles?.email || 'N/A'
+    },
+    {
+      key: 'rating',
+      header: 'Rating',
+      sortable: true,
+      cell: (rating) => (
+        <div className="flex items-center space-x-2">
+          <StarRating rating={rating.rating} size="sm" />
+          <span className="text-sm">({rating.rating}/5)</span>
+        </div>
+      )
+    },
+    {
+      key: 'review',
+      header: 'Review',
+      className: 'max-w-md',
+      cell: (rating) => (
+        <div className="space-y-2">
+          {rating.title || rating.body
+            ? <ReviewText title={rating.title} body={rating.body} />
+            : <p className="text-muted-foreground">No written review</p>}
+          {rating.rating_replies && (
+            <ReviewReply body={rating.rating_replies.body} updatedAt={rating.rating_replies.updated_at} />
+          )}
+          <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setReplyTarget(rating)}>
+            <MessageSquareReply className="h-4 w-4 mr-2" />
+            {rating.rating_replies ? 'Edit Reply' : 'Reply'}
+          </Button>
+        </div>
+      )
+    },
+    {
+      key: 'created_at',
+      header: 'Date',
+      sortable: true,
+      sortValue: (rating) => new Date(rating.created_at).getTime(),
+      cell: (rating) => new Date(rating.created_at).toLocaleDateString()
+    }
+  ];
+
+  const portfolioColumns: DataTableColumn<Store>[] = [
+    {
+      key: 'name',
+      header: 'Store',
+      sortable: true,
+      cell: (s) => (
+        <span className={s.id === store?.id ? 'font-semibold' : ''}>{s.name}</span>
+      )
+    },
+    { key: 'address', header: 'Address', sortable: true, cell: (s) => s.address },
+    {
+      key: 'average_rating',
+      header: 'Rating',
+      sortable: true,
+      cell: (s) => (
+        <div className="flex items-center space-x-1">
+          <Star className="h-4 w-4 fill-current text-yellow-400" />
+          <span>{s.average_rating.toFixed(1)}</span>
+        </div>
+      )
+    },
+    { key: 'total_ratings', header: 'Reviews', sortable: true, cell: (s) => s.total_ratings }
+  ];
+
+  const portfolio = getWeightedAverage(stores);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -125,7 +222,7 @@ const StoreOwnerDashboard = () => {
             <div className="text-center">
               <h2 className="text-2xl font-bold mb-2">No Store Found</h2>
               <p className="text-muted-foreground">
-                You don't have a store associated with your account. Please contact the administrator to set up your store.
+                You don't have any stores associated with your account. Please contact the administrator to set up your store.
               </p>
             </div>
           </CardContent>
@@ -136,17 +233,84 @@ const StoreOwnerDashboard = () => {
 
   return (
     <div className="p-6 space-y-6">
-      <div className="flex justify-between items-center">
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
         <h1 className="text-3xl font-bold">Store Dashboard</h1>
+        <div className="flex items-center space-x-2">
+          {stores.length > 1 && (
+            <Select value={store.id} onValueChange={selectStore}>
+              <SelectTrigger className="w-64" aria-label="Select store">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" asChild>
+            <Link to={`/stores/${store.id}`}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              View Store Page
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      {stores.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Portfolio Summary</CardTitle>
+            <CardDescription>Combined performance across all {stores.length} of your stores</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <StoreIcon className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{stores.length}</p>
+                  <p className="text-sm text-muted-foreground">Stores</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <Star className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{portfolio.average.toFixed(1)}</p>
+                  <p className="text-sm text-muted-foreground">Weighted Average Rating</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <Users className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{portfolio.totalRatings}</p>
+                  <p className="text-sm text-muted-foreground">Total Reviews</p>
+                </div>
+              </div>
+            </div>
+            <DataTable
+              columns={portfolioColumns}
+              rows={stores}
+              getRowKey={(s) => s.id}
+              onRowClick={(s) => selectStore(s.id)}
+              defaultSort={[{ column: 'average_rating', direction: 'desc' }]}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Store Info Card */}
       <Card>
         <CardHeader>
           <CardTitle>{store.name}</CardTitle>
           <CardDescription>{store.address}</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="flex items-center space-x-3">
               <div className="p-3 bg-primary/10 rounded-full">
@@ -174,15 +338,42 @@ const StoreOwnerDashboard = () => {
               </div>
               <div>
                 <div className="flex items-center space-x-2">
-                  <StarRating rating={Math.round(store.average_rating)} />
+                  <StarRating rating={Math.round(store.average_rating)} size="sm" />
                 </div>
                 <p className="text-sm text-muted-foreground">Rating Display</p>
               </div>
             </div>
           </div>
+          <CategoryBenchmark categoryId={store.category_id} storeAverage={store.average_rating} />
+        </CardContent>
+      </Card>
+
+      <OpeningHoursEditor storeId={store.id} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Photos</CardTitle>
+          <CardDescription>Shown on your store page and as the cover in the store directory</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <StorePhotoManager storeId={store.id} />
         </CardContent>
       </Card>
 
+      {store.criteria_averages && Object.keys(store.criteria_averages).length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Criteria Breakdown</CardTitle>
+            <CardDescription>Average score for each rating criterion</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CriteriaBreakdown averages={store.criteria_averages} />
+          </CardContent>
+        </Card>
+      )}
+
+      <RatingCharts ratings={ratings} />
+
       {/* Ratings Table */}
       <Card>
         <CardHeader>
@@ -191,35 +382,12 @@ const StoreOwnerDashboard = () => {
         </CardHeader>
         <CardContent>
           {ratings.length > 0 ? (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Rating</TableHead>
-                  <TableHead>Date</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {ratings.map((rating) => (
-                  <TableRow key={rating.id}>
-                    <TableCell className="font-medium">
-                      {rating.profiles?.name || 'Unknown'}
-                    </TableCell>
-                    <TableCell>{rating.profiles?.email || 'N/A'}</TableCell>
-                    <TableCell>
-                      <div className="flex items-center space-x-2">
-                        <StarRating rating={rating.rating} />
-                        <span className="text-sm">({rating.rating}/5)</span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      {new Date(rating.created_at).toLocaleDateString()}
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <DataTable
+              columns={ratingColumns}
+              rows={ratings}
+              getRowKey={(rating) => rating.id}
+              defaultSort={[{ column: 'created_at', direction: 'desc' }]}
+            />
           ) : (
             <div className="text-center py-6">
               <p className="text-muted-foreground">No reviews yet. Encourage customers to rate your store!</p>
@@ -227,6 +395,12 @@ const StoreOwnerDashboard = () => {
           )}
         </CardContent>
       </Card>
+
+      <ReplyDialog
+        rating={replyTarget}
+        onOpenChange={(open) => !open && setReplyTarget(null)}
+        onSaved={() => fetchRatings(store.id)}
+      />
     </div>
   );
 };
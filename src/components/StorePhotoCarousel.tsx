@@ -0,0 +1,43 @@
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { getPhotoUrl } from '@/lib/images';
+
+interface StorePhotoCarouselProps {
+  photos: {
+    id: string;
+    path: string;
+  }[];
+  storeName: string;
+}
+
+// Full-size photos for the store page; renders nothing until the store has at least one
+const StorePhotoCarousel = ({ photos, storeName }: StorePhotoCarouselProps) => {
+  if (photos.length === 0) return null;
+
+  return (
+    <Carousel opts={{ loop: photos.length > 1 }} className="mx-12">
+      <CarouselContent>
+        {photos.map((photo, index) => (
+          <CarouselItem key={photo.id}>
+            <AspectRatio ratio={16 / 9} className="overflow-hidden rounded-lg bg-muted">
+              <img
+                src={getPhotoUrl(photo.path)}
+                alt={`${storeName} photo ${index + 1}`}
+                loading={index === 0 ? 'eager' : 'lazy'}
+                className="h-full w-full object-cover"
+              />
+            </AspectRatio>
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      {photos.length > 1 && (
+        <>
+          <CarouselPrevious />
+          <CarouselNext />
+        </>
+      )}
+    </Carousel>
+  );
+};
+
+export default StorePhotoCarousel;
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { ImagePlus, Star, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+import { PHOTO_TYPES, STORE_PHOTOS_BUCKET, createThumbnail, getPhotoUrl, validatePhoto } from '@/lib/images';
+
+interface StorePhoto {
+  id: string;
+  path: string;
+  thumbnail_path: string;
+  position: number;
+}
+
+interface StorePhotoManagerProps {
+  storeId: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+// Upload, reorder and delete a store's photos; shared by the owner dashboard and the admin photo dialog
+const StorePhotoManager = ({ storeId }: StorePhotoManagerProps) => {
+  const [photos, setPhotos] = useState<StorePhoto[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [storeId]);
+
+  const fetchPhotos = async () => {
+    const { data, error } = await supabase
+      .from('store_photos')
+      .select('id, path, thumbnail_path, position')
+      .eq('store_id', storeId)
+      .order('position')
+      .order('created_at');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch photos', variant: 'destructive' });
+    } else {
+      setPhotos(data || []);
+    }
+  };
+
+  const uploadPhoto = async (file: File, position: number) => {
+    const id = crypto.randomUUID();
+    const path = `${storeId}/${id}.${EXTENSIONS[file.type]}`;
+    const thumbnailPath = `${storeId}/${id}-thumb.jpg`;
+    const storage = supabase.storage.from(STORE_PHOTOS_BUCKET);
+
+    const thumbnail = await createThumbnail(file);
+    const uploads = await Promise.all([
+      storage.upload(path, file, { contentType: file.type }),
+      storage.upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg' })
+    ]);
+    const uploadError = uploads.find((result) => result.error)?.error;
+    const { error } = uploadError
+      ? { error: uploadError }
+      : await supabase
+        .from('store_photos')
+        .insert({ store_id: storeId, path, thumbnail_path: thumbnailPath, position });
+
+    // Don't leave orphaned files in the bucket when either the upload or the insert fails
+    if (error) {
+      await storage.remove([path, thumbnailPath]);
+      throw new Error(error.message);
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files);
+    const invalid = selected.map(validatePhoto).filter(Boolean);
+    if (invalid.length > 0) {
+      toast({ title: 'Error', description: invalid.join('. '), variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    const nextPosition = photos.reduce((max, photo) => Math.max(max, photo.position + 1), 0);
+    try {
+      for (const [index, file] of selected.entries()) {
+        await uploadPhoto(file, nextPosition + index);
+      }
+      toast({ title: 'Success', description: selected.length === 1 ? 'Photo uploaded' : `${selected.length} photos uploaded` });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setUploading(false);
+    fetchPhotos();
+  };
+
+  const makeCover = async (photo: StorePhoto) => {
+    const { error } = await supabase
+      .from('store_photos')
+      .update({ position: photos[0].position - 1 })
+      .eq('id', photo.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      fetchPhotos();
+    }
+  };
+
+  const deletePhoto = async (photo: StorePhoto) => {
+    const { error } = await supabase
+      .from('store_photos')
+      .delete()
+      .eq('id', photo.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    await supabase.storage.from(STORE_PHOTOS_BUCKET).remove([photo.path, photo.thumbnail_path]);
+    toast({ title: 'Success', description: 'Photo deleted' });
+    fetchPhotos();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          JPEG, PNG or WebP, up to 5 MB each. The first photo is used as the cover.
+        </p>
+        <Button onClick={() => fileInput.current?.click()} disabled={uploading}>
+          <ImagePlus className="h-4 w-4 mr-2" />
+          {uploading ? 'Uploading...' : 'Upload Photos'}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={PHOTO_TYPES.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {photos.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="space-y-2">
+              <AspectRatio ratio={4 / 3} className="overflow-hidden rounded-md bg-muted">
+                <img src={getPhotoUrl(photo.thumbnail_path)} alt="" className="h-full w-full object-cover" />
+              </AspectRatio>
+              <div className="flex items-center justify-between">
+                {index === 0 ? (
+                  <Badge variant="secondary">Cover</Badge>
+                ) : (
+                  <Button variant="ghost" size="sm" onClick={() => makeCover(photo)}>
+                    <Star className="h-4 w-4 mr-1" />
+                    Make Cover
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete photo"
+                  onClick={() => setConfirmAction({
+                    title: 'Delete photo?',
+                    description: 'The photo will be removed from the store page. This cannot be undone.',
+                    confirmLabel: 'Delete',
+                    destructive: true,
+                    onConfirm: () => deletePhoto(photo)
+                  })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-muted-foreground py-6">No photos yet.</p>
+      )}
+
+      <ConfirmDialog
+        action={confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      />
+    </div>
+  );
+};
+
+export default StorePhotoManager;
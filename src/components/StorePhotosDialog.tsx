@@ -0,0 +1,24 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import StorePhotoManager from '@/components/StorePhotoManager';
+
+interface StorePhotosDialogProps {
+  store: {
+    id: string;
+    name: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StorePhotosDialog = ({ store, onOpenChange }: StorePhotosDialogProps) => (
+  <Dialog open={store !== null} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-3xl">
+      <DialogHeader>
+        <DialogTitle>Store Photos</DialogTitle>
+        <DialogDescription>{store?.name}</DialogDescription>
+      </DialogHeader>
+      {store && <StorePhotoManager storeId={store.id} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default StorePhotosDialog;
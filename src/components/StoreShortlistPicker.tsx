@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Search, Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface ShortlistStore {
+  id: string;
+  name: string;
+  address: string;
+  average_rating: number;
+}
+
+interface StoreShortlistPickerProps {
+  selected: string[];
+  onChange: (storeIds: string[]) => void;
+  max: number;
+}
+
+// Checkbox list over the active directory for choosing the stores a group will decide between
+const StoreShortlistPicker = ({ selected, onChange, max }: StoreShortlistPickerProps) => {
+  const [stores, setStores] = useState<ShortlistStore[]>([]);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    fetchStores();
+  }, []);
+
+  const fetchStores = async () => {
+    const { data, error } = await supabase
+      .from('store_ratings')
+      .select('id, name, address, average_rating')
+      .is('deleted_at', null)
+      .order('name');
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch stores', variant: 'destructive' });
+    } else {
+      setStores(data || []);
+    }
+  };
+
+  const toggle = (storeId: string, checked: boolean) => {
+    onChange(checked ? [...selected, storeId] : selected.filter((id) => id !== storeId));
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = stores.filter((store) =>
+    store.name.toLowerCase().includes(term) || store.address.toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Search className="h-4 w-4 text-muted-foreground" />
+        <Input placeholder="Search stores..." value={search} onChange={(e) => setSearch(e.target.value)} />
+      </div>
+      <ScrollArea className="h-56 rounded-md border">
+        <div className="p-2 space-y-1">
+          {visible.map((store) => {
+            const checked = selected.includes(store.id);
+            return (
+              <label
+                key={store.id}
+                className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted cursor-pointer"
+              >
+                <Checkbox
+                  checked={checked}
+                  disabled={!checked && selected.length >= max}
+                  onCheckedChange={(value) => toggle(store.id, value === true)}
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium truncate">{store.name}</span>
+                  <span className="block text-xs text-muted-foreground truncate">{store.address}</span>
+                </span>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Star className="h-3 w-3 fill-current text-yellow-400" />
+                  {store.average_rating.toFixed(1)}
+                </span>
+              </label>
+            );
+          })}
+          {visible.length === 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">No stores match your search.</p>
+          )}
+        </div>
+      </ScrollArea>
+      <p className="text-xs text-muted-foreground">{selected.length} of up to {max} selected</p>
+    </div>
+  );
+};
+
+export default StoreShortlistPicker;
@@ -0,0 +1,74 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { getPageItems } from '@/lib/table-query';
+
+interface TablePaginationProps {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+}
+
+const TablePagination = ({ page, pageSize, totalCount, onPageChange }: TablePaginationProps) => {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+  const firstRow = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
+
+  const handleClick = (nextPage: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (nextPage >= 1 && nextPage <= pageCount && nextPage !== page) {
+      onPageChange(nextPage);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-2 mt-4">
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {firstRow}-{lastRow} of {totalCount}
+      </p>
+      {pageCount > 1 && (
+        <Pagination className="sm:justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={handleClick(page - 1)}
+                aria-disabled={page === 1}
+                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+            {getPageItems(page, pageCount).map((item, i) => (
+              <PaginationItem key={item === 'ellipsis' ? `ellipsis-${i}` : item}>
+                {item === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={item === page} onClick={handleClick(item)}>
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={handleClick(page + 1)}
+                aria-disabled={page === pageCount}
+                className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default TablePagination;
@@ -1,12 +1,25 @@
 import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Star, Search, Edit } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Star, Search, Edit, Store as StoreIcon } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import ReviewReply from '@/components/ReviewReply';
+import StarRating from '@/components/StarRating';
+import RatingDialog from '@/components/RatingDialog';
+import OpenStatusBadge from '@/components/OpenStatusBadge';
+import SaveStoreMenu, { type SavedStoreList } from '@/components/SaveStoreMenu';
+import { getOpenStatus, type StoreSchedule } from '@/lib/opening-hours';
+import { getPhotoUrl } from '@/lib/images';
 
 interface Store {
   id: string;
@@ -15,53 +28,78 @@ interface Store {
   email: string;
   average_rating: number;
   total_ratings: number;
+  category_id: string | null;
+  tags: string[];
+  time_zone: string;
+  // Thumbnail of the store's lowest-positioned photo
+  cover_thumbnail_path: string | null;
 }
 
+interface Category {
+  id: string;
+  name: string;
+}
+
+// Select can't hold an empty value, so this stands in for "no filter"
+const ALL = 'all';
+// List filter value for the user's favorites, which aren't a store_lists row
+const FAVORITES = 'favorites';
+
 interface UserRating {
   id: string;
   rating: number;
   store_id: string;
+  title: string | null;
+  body: string | null;
+  rating_replies: {
+    body: string;
+    updated_at: string;
+  } | null;
 }
 
-const StarRating = ({ rating, onRatingChange, readonly = false }: { 
-  rating: number; 
-  onRatingChange?: (rating: number) => void; 
-  readonly?: boolean;
-}) => {
-  return (
-    <div className="flex space-x-1">
-      {[1, 2, 3, 4, 5].map((star) => (
-        <Star
-          key={star}
-          className={`h-5 w-5 cursor-pointer ${
-            star <= rating ? 'fill-current text-yellow-400' : 'text-gray-300'
-          }`}
-          onClick={() => !readonly && onRatingChange?.(star)}
-        />
-      ))}
-    </div>
-  );
-};
-
 const UserDashboard = () => {
   const { profile } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [stores, setStores] = useState<Store[]>([]);
   const [userRatings, setUserRatings] = useState<UserRating[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [tagFilter, setTagFilter] = useState(ALL);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const [schedules, setSchedules] = useState<Record<string, StoreSchedule>>({});
+  const [now, setNow] = useState(() => new Date());
+  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [lists, setLists] = useState<SavedStoreList[]>([]);
   const [selectedStore, setSelectedStore] = useState<Store | null>(null);
-  const [newRating, setNewRating] = useState(0);
-  const [ratingDialogOpen, setRatingDialogOpen] = useState(false);
+
+  // The list filter lives in the URL so the Lists page can link straight to a filtered directory
+  const listFilter = searchParams.get('list') || ALL;
+  const setListFilter = (value: string) => setSearchParams(value === ALL ? {} : { list: value }, { replace: true });
 
   useEffect(() => {
     fetchData();
   }, [profile]);
 
+  // Open/closed badges are time-sensitive, so re-evaluate them every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
   const fetchData = async () => {
     if (!profile) return;
     
     setLoading(true);
-    await Promise.all([fetchStores(), fetchUserRatings()]);
+    const [listed] = await Promise.all([
+      fetchStores(),
+      fetchUserRatings(),
+      fetchCategories(),
+      fetchSaved()
+    ]);
+    // Scoped to the listed stores so the API's row cap can't silently drop some stores' hours
+    await fetchSchedules(listed.map((store) => store.id));
     setLoading(false);
   };
 
@@ -76,6 +114,56 @@ const UserDashboard = () => {
     } else {
       setStores(data || []);
     }
+    return data || [];
+  };
+
+  const fetchCategories = async () => {
+    const { data } = await supabase
+      .from('categories')
+      .select('id, name')
+      .order('name');
+
+    setCategories(data || []);
+  };
+
+  const fetchSchedules = async (storeIds: string[]) => {
+    // Yesterday is included because it may still be "today" in a store's time zone
+    const [hoursResult, closuresResult] = await Promise.all([
+      supabase
+        .from('store_opening_hours')
+        .select('store_id, weekday, opens_at, closes_at')
+        .in('store_id', storeIds),
+      supabase
+        .from('store_closures')
+        .select('store_id, closes_on')
+        .in('store_id', storeIds)
+        .gte('closes_on', format(subDays(new Date(), 1), 'yyyy-MM-dd'))
+    ]);
+
+    const next: Record<string, StoreSchedule> = {};
+    const scheduleFor = (storeId: string) => (next[storeId] ??= { hours: [], closures: [] });
+    (hoursResult.data || []).forEach((range) => scheduleFor(range.store_id).hours.push(range));
+    (closuresResult.data || []).forEach((closure) => scheduleFor(closure.store_id).closures.push(closure));
+    setSchedules(next);
+  };
+
+  const fetchSaved = async () => {
+    if (!profile) return;
+
+    const [favoritesResult, listsResult] = await Promise.all([
+      supabase
+        .from('store_favorites')
+        .select('store_id')
+        .eq('user_id', profile.id),
+      supabase
+        .from('store_lists')
+        .select('id, name, store_list_entries (store_id, position)')
+        .eq('user_id', profile.id)
+        .order('name')
+    ]);
+
+    setFavorites(new Set((favoritesResult.data || []).map((favorite) => favorite.store_id)));
+    setLists(listsResult.data || []);
   };
 
   const fetchUserRatings = async () => {
@@ -83,7 +171,13 @@ const UserDashboard = () => {
     
     const { data, error } = await supabase
       .from('ratings')
-      .select('*')
+      .select(`
+        *,
+        rating_replies (
+          body,
+          updated_at
+        )
+      `)
       .eq('user_id', profile.id);
     
     if (error) {
@@ -93,59 +187,34 @@ const UserDashboard = () => {
     }
   };
 
-  const handleSubmitRating = async () => {
-    if (!selectedStore || !profile || newRating === 0) return;
-
-    const existingRating = userRatings.find(r => r.store_id === selectedStore.id);
-
-    if (existingRating) {
-      // Update existing rating
-      const { error } = await supabase
-        .from('ratings')
-        .update({ rating: newRating })
-        .eq('id', existingRating.id);
-
-      if (error) {
-        toast({ title: 'Error', description: 'Failed to update rating', variant: 'destructive' });
-      } else {
-        toast({ title: 'Success', description: 'Rating updated successfully' });
-        setRatingDialogOpen(false);
-        fetchData();
-      }
-    } else {
-      // Create new rating
-      const { error } = await supabase
-        .from('ratings')
-        .insert({
-          user_id: profile.id,
-          store_id: selectedStore.id,
-          rating: newRating
-        });
-
-      if (error) {
-        toast({ title: 'Error', description: 'Failed to submit rating', variant: 'destructive' });
-      } else {
-        toast({ title: 'Success', description: 'Rating submitted successfully' });
-        setRatingDialogOpen(false);
-        fetchData();
-      }
-    }
+  const getUserRatingForStore = (storeId: string) => {
+    return userRatings.find(r => r.store_id === storeId)?.rating || 0;
   };
 
-  const openRatingDialog = (store: Store) => {
-    setSelectedStore(store);
-    const existingRating = userRatings.find(r => r.store_id === store.id);
-    setNewRating(existingRating?.rating || 0);
-    setRatingDialogOpen(true);
+  const getOwnerReplyForStore = (storeId: string) => {
+    return userRatings.find(r => r.store_id === storeId)?.rating_replies || null;
   };
 
-  const getUserRatingForStore = (storeId: string) => {
-    return userRatings.find(r => r.store_id === storeId)?.rating || 0;
+  const getStatusForStore = (store: Store) => {
+    const schedule = schedules[store.id];
+    return schedule ? getOpenStatus(schedule.hours, schedule.closures, store.time_zone, now) : null;
+  };
+
+  const allTags = [...new Set(stores.flatMap(store => store.tags))].sort();
+
+  const isInListFilter = (storeId: string) => {
+    if (listFilter === ALL) return true;
+    if (listFilter === FAVORITES) return favorites.has(storeId);
+    return lists.find((list) => list.id === listFilter)?.store_list_entries.some((entry) => entry.store_id === storeId) ?? false;
   };
 
   const filteredStores = stores.filter(store =>
-    store.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    store.address.toLowerCase().includes(searchTerm.toLowerCase())
+    (store.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      store.address.toLowerCase().includes(searchTerm.toLowerCase())) &&
+    (categoryFilter === ALL || store.category_id === categoryFilter) &&
+    (tagFilter === ALL || store.tags.includes(tagFilter)) &&
+    isInListFilter(store.id) &&
+    (!openNowOnly || getStatusForStore(store)?.open === true)
   );
 
   if (loading) {
@@ -166,10 +235,10 @@ const UserDashboard = () => {
       <Card>
         <CardHeader>
           <CardTitle>Search Stores</CardTitle>
-          <CardDescription>Find stores by name or address</CardDescription>
+          <CardDescription>Find stores by name or address, or narrow them down by category, tag, your lists and opening hours</CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="flex items-center space-x-2">
+        <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="flex items-center space-x-2 md:col-span-2">
             <Search className="h-4 w-4 text-muted-foreground" />
             <Input
               placeholder="Search by name or address..."
@@ -177,6 +246,44 @@ const UserDashboard = () => {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
           </div>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger aria-label="Filter by category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger aria-label="Filter by tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Tags</SelectItem>
+              {allTags.map((tag) => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={listFilter} onValueChange={setListFilter}>
+            <SelectTrigger aria-label="Filter by list">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Stores</SelectItem>
+              <SelectItem value={FAVORITES}>Favorites</SelectItem>
+              {lists.map((list) => (
+                <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Switch id="open-now" checked={openNowOnly} onCheckedChange={setOpenNowOnly} />
+            <Label htmlFor="open-now">Open now</Label>
+          </div>
         </CardContent>
       </Card>
 
@@ -184,18 +291,60 @@ const UserDashboard = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredStores.map((store) => {
           const userRating = getUserRatingForStore(store.id);
+          const ownerReply = getOwnerReplyForStore(store.id);
           return (
-            <Card key={store.id} className="hover:shadow-lg transition-shadow">
+            <Card key={store.id} className="hover:shadow-lg transition-shadow overflow-hidden">
+              <Link to={`/stores/${store.id}`} tabIndex={-1}>
+                <AspectRatio ratio={16 / 9} className="bg-muted">
+                  {store.cover_thumbnail_path ? (
+                    <img
+                      src={getPhotoUrl(store.cover_thumbnail_path)}
+                      alt={store.name}
+                      loading="lazy"
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center">
+                      <StoreIcon className="h-10 w-10 text-muted-foreground" />
+                    </div>
+                  )}
+                </AspectRatio>
+              </Link>
               <CardHeader>
-                <CardTitle className="text-lg">{store.name}</CardTitle>
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg">
+                    <Link to={`/stores/${store.id}`} className="hover:underline">{store.name}</Link>
+                  </CardTitle>
+                  <SaveStoreMenu
+                    storeId={store.id}
+                    isFavorite={favorites.has(store.id)}
+                    lists={lists}
+                    onChanged={fetchSaved}
+                  />
+                </div>
                 <CardDescription>{store.address}</CardDescription>
+                <OpenStatusBadge status={getStatusForStore(store)} />
+                {(store.category_id || store.tags.length > 0) && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {store.category_id && (
+                      <button type="button" onClick={() => setCategoryFilter(store.category_id)}>
+                        <Badge>{categories.find((c) => c.id === store.category_id)?.name}</Badge>
+                      </button>
+                    )}
+                    {store.tags.map((tag) => (
+                      <button key={tag} type="button" onClick={() => setTagFilter(tag)}>
+                        <Badge variant="secondary" className="font-normal">{tag}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm text-muted-foreground">Overall Rating</p>
                     <div className="flex items-center space-x-2">
-                      <StarRating rating={store.average_rating} readonly />
+                      <StarRating rating={store.average_rating} />
                       <span className="text-sm text-muted-foreground">
                         ({store.total_ratings} reviews)
                       </span>
@@ -206,12 +355,15 @@ const UserDashboard = () => {
                 {userRating > 0 && (
                   <div>
                     <p className="text-sm text-muted-foreground">Your Rating</p>
-                    <StarRating rating={userRating} readonly />
+                    <StarRating rating={userRating} />
+                    {ownerReply && (
+                      <ReviewReply body={ownerReply.body} updatedAt={ownerReply.updated_at} className="mt-2" />
+                    )}
                   </div>
                 )}
 
                 <Button
-                  onClick={() => openRatingDialog(store)}
+                  onClick={() => setSelectedStore(store)}
                   className="w-full"
                   variant={userRating > 0 ? "outline" : "default"}
                 >
@@ -237,50 +389,18 @@ const UserDashboard = () => {
         <Card>
           <CardContent className="py-6">
             <p className="text-center text-muted-foreground">
-              No stores found matching your search.
+              No stores found matching your search and filters.
             </p>
           </CardContent>
         </Card>
       )}
 
-      {/* Rating Dialog */}
-      <Dialog open={ratingDialogOpen} onOpenChange={setRatingDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Rate {selectedStore?.name}</DialogTitle>
-            <DialogDescription>
-              How would you rate your experience with this store?
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="flex flex-col items-center space-y-4">
-              <StarRating
-                rating={newRating}
-                onRatingChange={setNewRating}
-              />
-              <p className="text-sm text-muted-foreground">
-                Click on a star to rate (1-5 stars)
-              </p>
-            </div>
-            <div className="flex space-x-2">
-              <Button
-                onClick={handleSubmitRating}
-                disabled={newRating === 0}
-                className="flex-1"
-              >
-                {userRatings.find(r => r.store_id === selectedStore?.id) ? 'Update Rating' : 'Submit Rating'}
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => setRatingDialogOpen(false)}
-                className="flex-1"
-              >
-                Cancel
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <RatingDialog
+        store={selectedStore}
+        existingRating={userRatings.find(r => r.store_id === selectedStore?.id) || null}
+        onOpenChange={(open) => !open && setSelectedStore(null)}
+        onSaved={fetchData}
+      />
     </div>
   );
 };
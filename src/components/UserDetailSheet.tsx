@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { getWeightedAverage } from '@/lib/rating-stats';
+import AssignStorePicker from '@/components/AssignStorePicker';
+
+interface UserDetails {
+  id: string;
+  name: string;
+  email: string;
+  address: string | null;
+  role: 'admin' | 'normal_user' | 'store_owner';
+  created_at: string;
+}
+
+interface SubmittedRating {
+  id: string;
+  rating: number;
+  created_at: string;
+  stores: {
+    name: string;
+  } | null;
+}
+
+interface OwnedStore {
+  id: string;
+  name: string;
+  address: string;
+  average_rating: number;
+  total_ratings: number;
+}
+
+interface UserDetailSheetProps {
+  userId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DetailField = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="space-y-1">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <div className="font-medium whitespace-pre-line">{value}</div>
+  </div>
+);
+
+const RatingValue = ({ average, count }: { average: number; count: number }) => (
+  <div className="flex items-center space-x-1">
+    <Star className="h-4 w-4 fill-current text-yellow-400" />
+    <span>{average.toFixed(1)} ({count})</span>
+  </div>
+);
+
+const UserDetailSheet = ({ userId, onOpenChange }: UserDetailSheetProps) => {
+  const [user, setUser] = useState<UserDetails | null>(null);
+  const [ratings, setRatings] = useState<SubmittedRating[]>([]);
+  const [stores, setStores] = useState<OwnedStore[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  // Ignore responses that arrive after another user was opened
+  const detailsRequest = useRef(0);
+
+  useEffect(() => {
+    if (userId) {
+      fetchDetails(userId);
+    }
+  }, [userId]);
+
+  const fetchDetails = async (id: string) => {
+    const requestId = ++detailsRequest.current;
+    // Never show the previously opened user while this one loads, or if it fails to
+    setUser(null);
+    setRatings([]);
+    setStores([]);
+    setFailed(false);
+    setLoading(true);
+
+    const [profileResult, ratingsResult, storesResult] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('*')
+        .eq('id', id)
+        .single(),
+      supabase
+        .from('ratings')
+        .select(`
+          id,
+          rating,
+          created_at,
+          stores (
+            name
+          )
+        `)
+        .eq('user_id', id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('store_ratings')
+        .select('*')
+        .eq('owner_id', id)
+        .order('name')
+    ]);
+
+    if (requestId !== detailsRequest.current) return;
+
+    if (profileResult.error || ratingsResult.error || storesResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch user details', variant: 'destructive' });
+      setFailed(true);
+    } else {
+      setUser(profileResult.data);
+      setRatings(ratingsResult.data || []);
+      setStores(storesResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const { average: ownerAverage, totalRatings: ownerTotalRatings } = getWeightedAverage(stores);
+
+  return (
+    <Sheet open={userId !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{user?.name || 'User Details'}</SheetTitle>
+          <SheetDescription>Full profile and rating activity</SheetDescription>
+        </SheetHeader>
+
+        {failed ? (
+          <div className="py-6 text-center text-muted-foreground">User details could not be loaded.</div>
+        ) : loading || !user ? (
+          <div className="py-6 text-center text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-6 py-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <DetailField label="Email" value={user.email} />
+              <DetailField
+                label="Role"
+                value={<Badge variant="secondary" className="capitalize">{user.role.replace('_', ' ')}</Badge>}
+              />
+              <DetailField label="Address" value={user.address || 'N/A'} />
+              <DetailField label="Created" value={new Date(user.created_at).toLocaleDateString()} />
+            </div>
+
+            {user.role === 'store_owner' && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">Stores</h3>
+                    {stores.length > 0 && <RatingValue average={ownerAverage} count={ownerTotalRatings} />}
+                  </div>
+                  {stores.length > 0 ? (
+                    stores.map((store) => (
+                      <div key={store.id} className="flex items-start justify-between rounded-md border p-3">
+                        <div>
+                          <p className="font-medium">{store.name}</p>
+                          <p className="text-sm text-muted-foreground">{store.address}</p>
+                        </div>
+                        <RatingValue average={store.average_rating} count={store.total_ratings} />
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">This owner has no stores yet.</p>
+                  )}
+                  <AssignStorePicker ownerId={user.id} ownerName={user.name} onAssigned={() => fetchDetails(user.id)} />
+                </div>
+              </>
+            )}
+
+            <Separator />
+            <div className="space-y-3">
+              <h3 className="font-semibold">Ratings Submitted ({ratings.length})</h3>
+              {ratings.length > 0 ? (
+                ratings.map((rating) => (
+                  <div key={rating.id} className="flex items-center justify-between text-sm">
+                    <span>{rating.stores?.name || 'Unknown store'}</span>
+                    <div className="flex items-center space-x-3">
+                      <span className="flex items-center space-x-1">
+                        <Star className="h-4 w-4 fill-current text-yellow-400" />
+                        <span>{rating.rating}</span>
+                      </span>
+                      <span className="text-muted-foreground">
+                        {new Date(rating.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                  </div>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No ratings submitted.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default UserDetailSheet;
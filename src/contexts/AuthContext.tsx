@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction, type FunctionError } from '@/lib/functions';
 
 interface Profile {
   id: string;
@@ -8,6 +9,19 @@ interface Profile {
   email: string;
   address?: string;
   role: 'admin' | 'normal_user' | 'store_owner';
+  created_at: string;
+  deleted_at: string | null;
+}
+
+// Sent as user metadata on signup; handle_new_user copies each field into profiles
+export interface SignUpDetails {
+  name: string;
+  address?: string;
+}
+
+export interface ProfileDetails {
+  name: string;
+  address?: string;
 }
 
 interface AuthContextType {
@@ -15,19 +29,31 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   loading: boolean;
-  signUp: (email: string, password: string, name: string, address: string) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, details: SignUpDetails) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
-  updatePassword: (password: string) => Promise<{ error: any }>;
+  updatePassword: (currentPassword: string, newPassword: string) => Promise<{ error: FunctionError | null }>;
+  updateProfile: (details: ProfileDetails) => Promise<{ error: Error | null }>;
+  updateEmail: (email: string) => Promise<{ error: Error | null }>;
+  refreshProfile: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<{ error: Error | null }>;
+  resetPassword: (password: string) => Promise<{ error: Error | null }>;
+  // True only for a session started from a password reset link, the one place a password
+  // may be set without the current one
+  passwordRecovery: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Read once at load, before the Supabase client consumes the hash of an emailed recovery link
+const openedFromRecoveryLink = new URLSearchParams(window.location.hash.slice(1)).get('type') === 'recovery';
+
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(openedFromRecoveryLink);
 
   const fetchProfile = async (userId: string) => {
     const { data, error } = await supabase
@@ -45,6 +71,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        } else if (event === 'SIGNED_OUT') {
+          setPasswordRecovery(false);
+        }
+
         setSession(session);
         setUser(session?.user ?? null);
         
@@ -78,7 +110,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, name: string, address: string) => {
+  const signUp = async (email: string, password: string, details: SignUpDetails) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
@@ -86,10 +118,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       password,
       options: {
         emailRedirectTo: redirectUrl,
-        data: {
-          name,
-          address
-        }
+        data: { ...details }
       }
     });
     
@@ -109,14 +138,75 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     await supabase.auth.signOut();
   };
 
-  const updatePassword = async (password: string) => {
-    const { error } = await supabase.auth.updateUser({
-      password
+  // Re-verifies the current password server-side, where failed attempts are rate limited. This only
+  // covers the app's own form: GoTrue still lets a session under 24 hours old set a new password
+  // through supabase.auth.updateUser without it.
+  const updatePassword = async (currentPassword: string, newPassword: string) => {
+    const { error } = await invokeFunction<{ success: boolean }>('change-password', {
+      currentPassword,
+      newPassword
     });
     
     return { error };
   };
 
+  const updateProfile = async (details: ProfileDetails) => {
+    if (!profile) return { error: new Error('Not signed in') };
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        name: details.name,
+        address: details.address || null
+      })
+      .eq('id', profile.id);
+
+    if (!error) {
+      await fetchProfile(user!.id);
+    }
+
+    return { error };
+  };
+
+  // Supabase emails a confirmation link; profiles.email follows once it is confirmed
+  const updateEmail = async (email: string) => {
+    const { error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: `${window.location.origin}/profile` }
+    );
+
+    return { error };
+  };
+
+  // The emailed link signs the user into a recovery session on /reset-password
+  const requestPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`
+    });
+
+    return { error };
+  };
+
+  // Only used from the recovery session, where there is no current password to verify
+  const resetPassword = async (password: string) => {
+    if (!passwordRecovery) {
+      return { error: new Error('Open the link from your password reset email to choose a new password') };
+    }
+
+    const { error } = await supabase.auth.updateUser({ password });
+    if (!error) {
+      setPasswordRecovery(false);
+    }
+
+    return { error };
+  };
+
+  const refreshProfile = async () => {
+    if (user) {
+      await fetchProfile(user.id);
+    }
+  };
+
   const value = {
     user,
     session,
@@ -125,7 +215,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     signUp,
     signIn,
     signOut,
-    updatePassword
+    updatePassword,
+    updateProfile,
+    updateEmail,
+    refreshProfile,
+    requestPasswordReset,
+    resetPassword,
+    passwordRecovery
   };
 
   return (
@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseSort, serializeSort, type SortRule } from '@/lib/table-query';
+
+interface TableParamsOptions<F extends string> {
+  // Prefixes every query param so several tables can share one URL
+  prefix: string;
+  filterKeys: readonly F[];
+  sortColumns: readonly string[];
+  defaultSort: SortRule[];
+}
+
+// Page, sort and filter state for a table, stored in the URL so views can be shared and restored
+export function useTableParams<F extends string>({ prefix, filterKeys, sortColumns, defaultSort }: TableParamsOptions<F>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const param = useCallback((name: string) => `${prefix}_${name}`, [prefix]);
+
+  const page = Math.max(1, Number(searchParams.get(param('page'))) || 1);
+  const sort = parseSort(searchParams.get(param('sort')), sortColumns, defaultSort);
+  const filters = Object.fromEntries(
+    filterKeys.map((key) => [key, searchParams.get(param(key)) ?? ''])
+  ) as Record<F, string>;
+
+  // Changes whenever this table's params change; use it as the effect dependency for refetching
+  const queryKey = JSON.stringify({ page, sort: serializeSort(sort), filters });
+
+  const update = useCallback((changes: Record<string, string | null>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([name, value]) => {
+        if (value) {
+          next.set(param(name), value);
+        } else {
+          next.delete(param(name));
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [param, setSearchParams]);
+
+  const setPage = useCallback((nextPage: number) => {
+    update({ page: nextPage > 1 ? String(nextPage) : null });
+  }, [update]);
+
+  const setSort = useCallback((nextSort: SortRule[]) => {
+    update({ sort: serializeSort(nextSort), page: null });
+  }, [update]);
+
+  const setFilter = useCallback((key: F, value: string) => {
+    update({ [key]: value, page: null });
+  }, [update]);
+
+  return { page, sort, filters, queryKey, setPage, setSort, setFilter };
+}
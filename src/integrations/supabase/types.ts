@@ -14,117 +14,1016 @@ export type Database = {
   }
   public: {
     Tables: {
+      bracket_entries: {
+        Row: {
+          average_rating: number
+          bracket_id: string
+          seed: number
+          store_id: string
+        }
+        Insert: {
+          average_rating: number
+          bracket_id: string
+          seed: number
+          store_id: string
+        }
+        Update: {
+          average_rating?: number
+          bracket_id?: string
+          seed?: number
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_entries_bracket_id_fkey"
+            columns: ["bracket_id"]
+            isOneToOne: false
+            referencedRelation: "brackets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_entries_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_entries_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bracket_matches: {
+        Row: {
+          bracket_id: string
+          id: string
+          round: number
+          slot: number
+          store_a_id: string
+          store_b_id: string
+          winner_store_id: string | null
+        }
+        Insert: {
+          bracket_id: string
+          id?: string
+          round: number
+          slot: number
+          store_a_id: string
+          store_b_id: string
+          winner_store_id?: string | null
+        }
+        Update: {
+          bracket_id?: string
+          id?: string
+          round?: number
+          slot?: number
+          store_a_id?: string
+          store_b_id?: string
+          winner_store_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_matches_bracket_id_fkey"
+            columns: ["bracket_id"]
+            isOneToOne: false
+            referencedRelation: "brackets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_store_a_id_fkey"
+            columns: ["store_a_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_store_b_id_fkey"
+            columns: ["store_b_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_matches_winner_store_id_fkey"
+            columns: ["winner_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bracket_participants: {
+        Row: {
+          bracket_id: string
+          joined_at: string
+          user_id: string
+        }
+        Insert: {
+          bracket_id: string
+          joined_at?: string
+          user_id: string
+        }
+        Update: {
+          bracket_id?: string
+          joined_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_participants_bracket_id_fkey"
+            columns: ["bracket_id"]
+            isOneToOne: false
+            referencedRelation: "brackets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bracket_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bracket_votes: {
+        Row: {
+          bracket_id: string
+          created_at: string
+          match_id: string
+          store_id: string
+          user_id: string
+        }
+        Insert: {
+          bracket_id: string
+          created_at?: string
+          match_id: string
+          store_id: string
+          user_id: string
+        }
+        Update: {
+          bracket_id?: string
+          created_at?: string
+          match_id?: string
+          store_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bracket_votes_bracket_id_user_id_fkey"
+            columns: ["bracket_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "bracket_participants"
+            referencedColumns: ["bracket_id", "user_id"]
+          },
+          {
+            foreignKeyName: "bracket_votes_match_id_bracket_id_fkey"
+            columns: ["match_id", "bracket_id"]
+            isOneToOne: false
+            referencedRelation: "bracket_matches"
+            referencedColumns: ["id", "bracket_id"]
+          },
+          {
+            foreignKeyName: "bracket_votes_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brackets: {
+        Row: {
+          champion_store_id: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          current_round: number
+          id: string
+          invite_code: string
+          size: number
+          title: string
+        }
+        Insert: {
+          champion_store_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by: string
+          current_round?: number
+          id?: string
+          invite_code?: string
+          size: number
+          title: string
+        }
+        Update: {
+          champion_store_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          current_round?: number
+          id?: string
+          invite_code?: string
+          size?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "brackets_champion_store_id_fkey"
+            columns: ["champion_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brackets_champion_store_id_fkey"
+            columns: ["champion_store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "brackets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brands: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      password_change_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          succeeded: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          succeeded: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          succeeded?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      poll_availability: {
+        Row: {
+          created_at: string
+          date_id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date_id: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date_id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_availability_date_id_poll_id_fkey"
+            columns: ["date_id", "poll_id"]
+            isOneToOne: false
+            referencedRelation: "poll_dates"
+            referencedColumns: ["id", "poll_id"]
+          },
+          {
+            foreignKeyName: "poll_availability_poll_id_user_id_fkey"
+            columns: ["poll_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "poll_participants"
+            referencedColumns: ["poll_id", "user_id"]
+          },
+        ]
+      }
+      poll_dates: {
+        Row: {
+          date: string
+          id: string
+          poll_id: string
+        }
+        Insert: {
+          date: string
+          id?: string
+          poll_id: string
+        }
+        Update: {
+          date?: string
+          id?: string
+          poll_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_dates_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_options: {
+        Row: {
+          id: string
+          poll_id: string
+          store_id: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          store_id: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_options_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_options_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_options_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_participants: {
+        Row: {
+          joined_at: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_participants_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          id: string
+          option_id: string
+          poll_id: string
+          rank: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          option_id: string
+          poll_id: string
+          rank?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          option_id?: string
+          poll_id?: string
+          rank?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_option_id_poll_id_fkey"
+            columns: ["option_id", "poll_id"]
+            isOneToOne: false
+            referencedRelation: "poll_options"
+            referencedColumns: ["id", "poll_id"]
+          },
+          {
+            foreignKeyName: "poll_votes_poll_id_user_id_fkey"
+            columns: ["poll_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "poll_participants"
+            referencedColumns: ["poll_id", "user_id"]
+          },
+        ]
+      }
+      polls: {
+        Row: {
+          closes_at: string
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          invite_code: string
+          title: string
+          updated_at: string
+          voting_method: Database["public"]["Enums"]["poll_voting_method"]
+        }
+        Insert: {
+          closes_at: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          invite_code?: string
+          title: string
+          updated_at?: string
+          voting_method?: Database["public"]["Enums"]["poll_voting_method"]
+        }
+        Update: {
+          closes_at?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          invite_code?: string
+          title?: string
+          updated_at?: string
+          voting_method?: Database["public"]["Enums"]["poll_voting_method"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "polls_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
-          address: string | null
+          address: string | null
+          created_at: string
+          deleted_at: string | null
+          email: string
+          id: string
+          name: string
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          email: string
+          id?: string
+          name: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          email?: string
+          id?: string
+          name?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rating_criteria: {
+        Row: {
+          archived_at: string | null
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_criteria_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_replies: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          rating_id: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          rating_id: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          rating_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_replies_rating_id_fkey"
+            columns: ["rating_id"]
+            isOneToOne: true
+            referencedRelation: "ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_scores: {
+        Row: {
+          created_at: string
+          criterion_id: string
+          id: string
+          rating_id: string
+          score: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          criterion_id: string
+          id?: string
+          rating_id: string
+          score: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          criterion_id?: string
+          id?: string
+          rating_id?: string
+          score?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rating_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_scores_rating_id_fkey"
+            columns: ["rating_id"]
+            isOneToOne: false
+            referencedRelation: "ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ratings: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          rating: number
+          store_id: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          rating: number
+          store_id: string
+          title?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          rating?: number
+          store_id?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ratings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_closures: {
+        Row: {
+          closes_on: string
+          created_at: string
+          id: string
+          reason: string | null
+          store_id: string
+        }
+        Insert: {
+          closes_on: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          store_id: string
+        }
+        Update: {
+          closes_on?: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_closures_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_favorites: {
+        Row: {
+          created_at: string
+          store_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          store_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          store_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_favorites_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_favorites_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_favorites_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_list_entries: {
+        Row: {
+          created_at: string
+          list_id: string
+          position: number
+          store_id: string
+        }
+        Insert: {
+          created_at?: string
+          list_id: string
+          position?: number
+          store_id: string
+        }
+        Update: {
+          created_at?: string
+          list_id?: string
+          position?: number
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_list_entries_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "store_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_list_entries_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "store_list_entries_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "store_ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_lists: {
+        Row: {
           created_at: string
-          email: string
           id: string
+          is_shared: boolean
           name: string
-          role: Database["public"]["Enums"]["user_role"]
+          share_code: string
           updated_at: string
           user_id: string
         }
         Insert: {
-          address?: string | null
           created_at?: string
-          email: string
           id?: string
+          is_shared?: boolean
           name: string
-          role?: Database["public"]["Enums"]["user_role"]
+          share_code?: string
           updated_at?: string
           user_id: string
         }
         Update: {
-          address?: string | null
           created_at?: string
-          email?: string
           id?: string
+          is_shared?: boolean
           name?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          share_code?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "store_lists_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      ratings: {
+      store_opening_hours: {
         Row: {
+          closes_at: string
           created_at: string
           id: string
-          rating: number
+          opens_at: string
           store_id: string
-          updated_at: string
-          user_id: string
+          weekday: number
         }
         Insert: {
+          closes_at: string
           created_at?: string
           id?: string
-          rating: number
+          opens_at: string
           store_id: string
-          updated_at?: string
-          user_id: string
+          weekday: number
         }
         Update: {
+          closes_at?: string
           created_at?: string
           id?: string
-          rating?: number
+          opens_at?: string
           store_id?: string
-          updated_at?: string
-          user_id?: string
+          weekday?: number
         }
         Relationships: [
           {
-            foreignKeyName: "ratings_store_id_fkey"
+            foreignKeyName: "store_opening_hours_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
-            referencedRelation: "store_ratings"
+            referencedRelation: "stores"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      store_photos: {
+        Row: {
+          created_at: string
+          id: string
+          path: string
+          position: number
+          store_id: string
+          thumbnail_path: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          path: string
+          position?: number
+          store_id: string
+          thumbnail_path: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          path?: string
+          position?: number
+          store_id?: string
+          thumbnail_path?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "ratings_store_id_fkey"
+            foreignKeyName: "store_photos_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "ratings_user_id_fkey"
-            columns: ["user_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
         ]
       }
       stores: {
         Row: {
           address: string
+          brand_id: string | null
+          category_id: string | null
           created_at: string
+          deleted_at: string | null
           email: string
           id: string
           name: string
           owner_id: string
+          tags: string[]
+          time_zone: string
           updated_at: string
         }
         Insert: {
           address: string
+          brand_id?: string | null
+          category_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           email: string
           id?: string
           name: string
           owner_id: string
+          tags?: string[]
+          time_zone?: string
           updated_at?: string
         }
         Update: {
           address?: string
+          brand_id?: string | null
+          category_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           email?: string
           id?: string
           name?: string
           owner_id?: string
+          tags?: string[]
+          time_zone?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "stores_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stores_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stores_owner_id_fkey"
             columns: ["owner_id"]
@@ -136,15 +1035,70 @@ export type Database = {
       }
     }
     Views: {
+      brand_ratings: {
+        Row: {
+          average_rating: number | null
+          created_at: string | null
+          id: string | null
+          name: string | null
+          store_count: number | null
+          total_ratings: number | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      category_ratings: {
+        Row: {
+          average_rating: number | null
+          created_at: string | null
+          id: string | null
+          name: string | null
+          store_count: number | null
+          total_ratings: number | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
+      poll_participant_names: {
+        Row: {
+          joined_at: string | null
+          name: string | null
+          poll_id: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_participants_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       store_ratings: {
         Row: {
           address: string | null
           average_rating: number | null
+          brand_id: string | null
+          category_id: string | null
+          cover_thumbnail_path: string | null
           created_at: string | null
+          criteria_averages: Json | null
+          deleted_at: string | null
           email: string | null
           id: string | null
           name: string | null
           owner_id: string | null
+          tags: string[] | null
+          time_zone: string | null
           total_ratings: number | null
           updated_at: string | null
         }
@@ -158,11 +1112,125 @@ export type Database = {
           },
         ]
       }
+      store_reviews: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          id: string | null
+          rating: number | null
+          reply_body: string | null
+          reply_id: string | null
+          reply_updated_at: string | null
+          reviewer_name: string | null
+          store_id: string | null
+          title: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ratings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      advance_bracket: {
+        Args: { _bracket_id: string }
+        Returns: undefined
+      }
+      begin_password_change_attempt: {
+        Args: { _max_failures: number; _user_id: string; _window: unknown }
+        Returns: { attempt_id: string; locked_until: string }[]
+      }
+      can_manage_store: {
+        Args: { _store_id: string }
+        Returns: boolean
+      }
+      create_bracket: {
+        Args: { _store_ids: string[]; _title: string }
+        Returns: string
+      }
+      current_profile_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_shared_store_list: {
+        Args: { _share_code: string }
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_bracket_participant: {
+        Args: { _bracket_id: string }
+        Returns: boolean
+      }
+      is_open_bracket_match: {
+        Args: { _match_id: string; _store_id: string }
+        Returns: boolean
+      }
+      is_poll_creator: {
+        Args: { _poll_id: string }
+        Returns: boolean
+      }
+      is_poll_open: {
+        Args: { _poll_id: string }
+        Returns: boolean
+      }
+      is_poll_participant: {
+        Args: { _poll_id: string }
+        Returns: boolean
+      }
+      join_bracket: {
+        Args: { _invite_code: string }
+        Returns: string
+      }
+      join_poll: {
+        Args: { _invite_code: string }
+        Returns: string
+      }
+      owns_rated_store: {
+        Args: { _rating_id: string }
+        Returns: boolean
+      }
+      owns_store_list: {
+        Args: { _list_id: string }
+        Returns: boolean
+      }
+      save_rating: {
+        Args: {
+          _body: string
+          _rating: number
+          _scores: Json
+          _store_id: string
+          _title: string
+        }
+        Returns: string
+      }
+      set_store_opening_hours: {
+        Args: { _hours: Json; _store_id: string }
+        Returns: undefined
+      }
+      submit_poll_ballot: {
+        Args: { _option_ids: string[]; _poll_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
+      poll_voting_method: "plurality" | "ranked" | "approval" | "borda"
       user_role: "admin" | "normal_user" | "store_owner"
     }
     CompositeTypes: {
@@ -291,6 +1359,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      poll_voting_method: ["plurality", "ranked", "approval", "borda"],
       user_role: ["admin", "normal_user", "store_owner"],
     },
   },
@@ -0,0 +1,12 @@
+export const BRACKET_SIZES = [8, 16] as const;
+
+export const getRoundCount = (size: number) => Math.log2(size);
+
+// Names rounds from the end, so a 16-store bracket opens with the Round of 16
+export const getRoundName = (round: number, roundCount: number) => {
+  const remaining = roundCount - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semifinals';
+  if (remaining === 2) return 'Quarterfinals';
+  return `Round of ${2 ** (remaining + 1)}`;
+};
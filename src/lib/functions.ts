@@ -0,0 +1,43 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Keep in sync with supabase/functions/_shared/responses.ts
+export type FunctionErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'validation_failed'
+  | 'email_taken'
+  | 'invalid_credentials'
+  | 'rate_limited'
+  | 'internal_error';
+
+export interface FunctionError {
+  code: FunctionErrorCode;
+  message: string;
+  fieldErrors?: Record<string, string>;
+}
+
+export const invokeFunction = async <T>(
+  name: string,
+  body: Record<string, unknown>
+): Promise<{ data: T | null; error: FunctionError | null }> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (!error) {
+    return { data: data as T, error: null };
+  }
+
+  // Non-2xx responses carry the function's typed error payload in the response body
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const payload = await error.context.json();
+      if (payload?.error) {
+        return { data: null, error: payload.error as FunctionError };
+      }
+    } catch {
+      // Body was not JSON, fall through to the generic error
+    }
+  }
+
+  return { data: null, error: { code: 'internal_error', message: error.message } };
+};
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const STORE_PHOTOS_BUCKET = 'store-photos';
+
+// Mirrors file_size_limit and allowed_mime_types on the store-photos bucket
+export const PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+export const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const THUMBNAIL_SIZE = 480;
+
+// Returns an error message for files the bucket would reject, or null when the file is fine
+export const validatePhoto = (file: File) => {
+  if (!PHOTO_TYPES.includes(file.type)) {
+    return `${file.name} is not a JPEG, PNG or WebP image`;
+  }
+  if (file.size > PHOTO_MAX_BYTES) {
+    return `${file.name} is larger than ${PHOTO_MAX_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+// Scales the image down so its longer side is at most `size` pixels and re-encodes it as JPEG
+export const createThumbnail = async (file: File, size = THUMBNAIL_SIZE): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Could not create a thumbnail for ${file.name}`))),
+      'image/jpeg',
+      0.8
+    );
+  });
+};
+
+export const getPhotoUrl = (path: string) =>
+  supabase.storage.from(STORE_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
@@ -0,0 +1,7 @@
+export type InviteKind = 'poll' | 'bracket';
+
+export const getInviteLink = (kind: InviteKind, code: string) =>
+  `${window.location.origin}/${kind}s/join/${code}`;
+
+// Accepts either a bare invite code or a whole invite link pasted from chat
+export const parseInviteCode = (input: string) => input.trim().split('/').filter(Boolean).pop() || '';
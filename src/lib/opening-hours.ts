@@ -0,0 +1,146 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+// Indexed like Date#getDay and store_opening_hours.weekday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface OpeningHours {
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+export interface StoreClosure {
+  closes_on: string;
+  reason?: string | null;
+}
+
+export interface StoreSchedule {
+  hours: OpeningHours[];
+  closures: StoreClosure[];
+}
+
+export interface OpenStatus {
+  open: boolean;
+  label: string;
+}
+
+// Older browsers lack Intl.supportedValuesOf, so fall back to a short list of common zones
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export const getTimeZones = () => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+// '09:30:00' or '09:30' -> minutes since midnight
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Postgres returns times with seconds; the UI only deals in hours and minutes
+export const formatTime = (time: string) => time.slice(0, 5);
+
+const isOvernight = (range: OpeningHours) => toMinutes(range.closes_at) < toMinutes(range.opens_at);
+
+interface ZonedTime {
+  date: string;
+  weekday: number;
+  minutes: number;
+}
+
+// The calendar date, weekday and time of day that a wall clock in the given zone shows at this instant
+export const getZonedTime = (instant: Date, timeZone: string): ZonedTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+
+  const date = `${part('year')}-${part('month')}-${part('day')}`;
+  return {
+    date,
+    weekday: parseISO(date).getDay(),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+};
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+// Works out whether the store is open at `now` in its own time zone, and when that next changes.
+// Returns null when the store hasn't listed any hours, so callers can tell "unknown" from "closed".
+export const getOpenStatus = (
+  hours: OpeningHours[],
+  closures: StoreClosure[],
+  timeZone: string,
+  now = new Date()
+): OpenStatus | null => {
+  if (hours.length === 0) return null;
+
+  const { date, weekday, minutes } = getZonedTime(now, timeZone);
+  const closedOn = new Set(closures.map((closure) => closure.closes_on));
+  const rangesOn = (day: number) =>
+    hours
+      .filter((range) => range.weekday === day)
+      .sort((a, b) => toMinutes(a.opens_at) - toMinutes(b.opens_at));
+
+  // A range that started yesterday and runs past midnight still counts, unless yesterday was a closure
+  const yesterday = (weekday + 6) % 7;
+  if (!closedOn.has(shiftDate(date, -1))) {
+    const spill = rangesOn(yesterday).find((range) => isOvernight(range) && minutes < toMinutes(range.closes_at));
+    if (spill) return { open: true, label: `Open until ${formatTime(spill.closes_at)}` };
+  }
+
+  if (!closedOn.has(date)) {
+    const current = rangesOn(weekday).find((range) =>
+      minutes >= toMinutes(range.opens_at) && (isOvernight(range) || minutes < toMinutes(range.closes_at))
+    );
+    if (current) return { open: true, label: `Open until ${formatTime(current.closes_at)}` };
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = shiftDate(date, offset);
+    if (closedOn.has(day)) continue;
+
+    const next = rangesOn((weekday + offset) % 7)
+      .find((range) => offset > 0 || toMinutes(range.opens_at) > minutes);
+    if (next) {
+      const when = offset === 0 ? '' : `${format(parseISO(day), 'EEE')} `;
+      return { open: false, label: `Opens ${when}${formatTime(next.opens_at)}` };
+    }
+  }
+
+  return { open: false, label: 'Closed' };
+};
+
+// Whether the store opens at all on a calendar date ('yyyy-MM-dd'), for planning ahead rather
+// than checking right now. Null when the store hasn't listed any hours.
+export const isOpenOnDate = (hours: OpeningHours[], closures: StoreClosure[], date: string): boolean | null => {
+  if (hours.length === 0) return null;
+  if (closures.some((closure) => closure.closes_on === date)) return false;
+
+  const weekday = parseISO(date).getDay();
+  return hours.some((range) => range.weekday === weekday);
+};
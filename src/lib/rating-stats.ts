@@ -0,0 +1,78 @@
+import { eachDayOfInterval, endOfDay, format, startOfDay, subDays } from 'date-fns';
+
+export interface RatingBucket {
+  stars: number;
+  count: number;
+  percentage: number;
+}
+
+// Counts per star value, highest first, with each bucket's share of all ratings
+export const getRatingDistribution = (ratings: number[]): RatingBucket[] => {
+  const total = ratings.length;
+  return [5, 4, 3, 2, 1].map((stars) => {
+    const count = ratings.filter((rating) => rating === stars).length;
+    return { stars, count, percentage: total > 0 ? (count / total) * 100 : 0 };
+  });
+};
+
+export interface TimedRating {
+  rating: number;
+  created_at: string;
+}
+
+export interface RatingTrendPoint {
+  date: string;
+  average: number | null;
+  count: number;
+}
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export const isWithinRange = (value: string, range: DateRange) => {
+  const date = new Date(value);
+  return date >= startOfDay(range.from) && date <= endOfDay(range.to);
+};
+
+// One point per day in the range, averaging the ratings from the trailing window of days
+// ending on that day; days with no ratings in their window have a null average
+export const getRollingAverage = (
+  ratings: TimedRating[],
+  range: DateRange,
+  windowDays = 30
+): RatingTrendPoint[] => {
+  const sorted = ratings
+    .map((r) => ({ rating: r.rating, time: new Date(r.created_at).getTime() }))
+    .sort((a, b) => a.time - b.time);
+
+  return eachDayOfInterval({ start: startOfDay(range.from), end: startOfDay(range.to) }).map((day) => {
+    const windowEnd = endOfDay(day).getTime();
+    const windowStart = startOfDay(subDays(day, windowDays - 1)).getTime();
+    const inWindow = sorted.filter((r) => r.time >= windowStart && r.time <= windowEnd);
+    const sum = inWindow.reduce((total, r) => total + r.rating, 0);
+
+    return {
+      date: format(day, 'yyyy-MM-dd'),
+      average: inWindow.length > 0 ? Number((sum / inWindow.length).toFixed(2)) : null,
+      count: inWindow.length
+    };
+  });
+};
+
+// Combined average across stores, weighted by review count so a store with one review doesn't dominate
+export const getWeightedAverage = (stores: { average_rating: number; total_ratings: number }[]) => {
+  const totalRatings = stores.reduce((sum, store) => sum + store.total_ratings, 0);
+  const average = totalRatings > 0
+    ? stores.reduce((sum, store) => sum + store.average_rating * store.total_ratings, 0) / totalRatings
+    : 0;
+  return { average, totalRatings };
+};
+
+// Overall star rating derived from the scores on active (unarchived) criteria; mirrors
+// public.sync_overall_rating()
+export const getOverallScore = (scores: number[]) => {
+  if (scores.length === 0) return 0;
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+};
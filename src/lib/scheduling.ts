@@ -0,0 +1,57 @@
+// Picks the best date and store for a scheduling poll. Pure, like tabulation.ts, so every
+// participant sees the same recommendation from the same answers.
+
+export interface CandidateDate {
+  id: string;
+  // 'yyyy-MM-dd'
+  date: string;
+}
+
+export interface Availability {
+  date_id: string;
+  user_id: string;
+}
+
+export interface SchedulePlan {
+  dateId: string;
+  date: string;
+  optionId: string;
+  // Participants who can make the date
+  available: number;
+  // The store's place in the poll results, starting at 1
+  venuePlace: number;
+  // Null when the store hasn't listed its opening hours
+  openOnDate: boolean | null;
+}
+
+// Every date and store pairing the group could go with, best first: the most people available,
+// then the store the group ranked highest, then confirmed opening hours over unknown ones,
+// then the earliest date. Pairings where the store is known to be closed are left out.
+export const rankSchedulePlans = (
+  dates: CandidateDate[],
+  availability: Availability[],
+  venueRanking: string[],
+  isOpenOn: (optionId: string, date: string) => boolean | null
+): SchedulePlan[] => {
+  const plans: SchedulePlan[] = [];
+
+  dates.forEach((candidate) => {
+    const available = new Set(
+      availability.filter((entry) => entry.date_id === candidate.id).map((entry) => entry.user_id)
+    ).size;
+
+    venueRanking.forEach((optionId, index) => {
+      const openOnDate = isOpenOn(optionId, candidate.date);
+      if (openOnDate === false) return;
+
+      plans.push({ dateId: candidate.id, date: candidate.date, optionId, available, venuePlace: index + 1, openOnDate });
+    });
+  });
+
+  return plans.sort((a, b) =>
+    b.available - a.available ||
+    a.venuePlace - b.venuePlace ||
+    Number(b.openOnDate === true) - Number(a.openOnDate === true) ||
+    a.date.localeCompare(b.date)
+  );
+};
@@ -0,0 +1,95 @@
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortRule {
+  column: string;
+  direction: SortDirection;
+}
+
+// Sort params look like "name.asc,email.desc"; unknown columns are dropped so the query never orders by arbitrary input
+export const parseSort = (value: string | null, allowedColumns: readonly string[], fallback: SortRule[]): SortRule[] => {
+  if (!value) return fallback;
+
+  const rules = value.split(',').flatMap((part): SortRule[] => {
+    const [column, direction] = part.split('.');
+    if (!allowedColumns.includes(column) || (direction !== 'asc' && direction !== 'desc')) {
+      return [];
+    }
+    return [{ column, direction }];
+  });
+
+  return rules.length > 0 ? rules : fallback;
+};
+
+export const serializeSort = (sort: SortRule[]) =>
+  sort.map((rule) => `${rule.column}.${rule.direction}`).join(',');
+
+// A plain click sorts by the column alone (asc, then desc). With multi, the column is added to
+// the existing rules and cycles asc -> desc -> removed.
+export const toggleSort = (sort: SortRule[], column: string, multi: boolean): SortRule[] => {
+  const existing = sort.find((rule) => rule.column === column);
+
+  if (!multi) {
+    const direction = existing && sort.length === 1 && existing.direction === 'asc' ? 'desc' : 'asc';
+    return [{ column, direction }];
+  }
+
+  if (!existing) {
+    return [...sort, { column, direction: 'asc' }];
+  }
+
+  if (existing.direction === 'asc') {
+    return sort.map((rule) => (rule.column === column ? { column, direction: 'desc' } : rule));
+  }
+
+  return sort.filter((rule) => rule.column !== column);
+};
+
+type SortValue = string | number | null | undefined;
+
+// Client-side counterpart of chained .order() calls; empty values sort last
+export const sortRows = <T>(rows: T[], sort: SortRule[], getValue: (row: T, column: string) => SortValue) => {
+  if (sort.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { column, direction } of sort) {
+      const left = getValue(a, column);
+      const right = getValue(b, column);
+      if (left === right) continue;
+      if (left === null || left === undefined || left === '') return 1;
+      if (right === null || right === undefined || right === '') return -1;
+
+      const result = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right), undefined, { sensitivity: 'base' });
+
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+};
+
+// Escapes LIKE wildcards so filter text is matched literally inside %...%
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+export const getPageRange = (page: number, pageSize: number) => {
+  const from = (page - 1) * pageSize;
+  return { from, to: from + pageSize - 1 };
+};
+
+// Page numbers to render, with 'ellipsis' standing in for skipped runs
+export const getPageItems = (page: number, pageCount: number): (number | 'ellipsis')[] => {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, i) => i + 1);
+  }
+
+  const items: (number | 'ellipsis')[] = [1];
+  const start = Math.max(2, page - 1);
+  const end = Math.min(pageCount - 1, page + 1);
+
+  if (start > 2) items.push('ellipsis');
+  for (let i = start; i <= end; i++) items.push(i);
+  if (end < pageCount - 1) items.push('ellipsis');
+
+  items.push(pageCount);
+  return items;
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareForTieBreak,
+  tabulate,
+  tabulateApproval,
+  tabulateBorda,
+  tabulateInstantRunoff,
+  tabulatePlurality,
+  type Candidate,
+  type VotingMethod
+} from './tabulation';
+
+const candidates: Candidate[] = [
+  { id: 'a', averageRating: 4 },
+  { id: 'b', averageRating: 3 },
+  { id: 'c', averageRating: 2 }
+];
+
+describe('tabulatePlurality', () => {
+  it('counts only each ballot\'s first preference', () => {
+    const result = tabulatePlurality(candidates, [['a', 'b'], ['b', 'a'], ['b'], ['c', 'a']]);
+
+    expect(result.rounds[0].tallies).toEqual({ a: 1, b: 2, c: 1 });
+    expect(result.winner).toBe('b');
+  });
+
+  it('counts ballots with no known candidate as exhausted', () => {
+    const result = tabulatePlurality(candidates, [['a'], [], ['x']]);
+
+    expect(result.rounds[0].exhausted).toBe(2);
+    expect(result.totalBallots).toBe(3);
+    expect(result.winner).toBe('a');
+  });
+
+  it('breaks ties on the directory rating', () => {
+    const result = tabulatePlurality(candidates, [['c'], ['b'], ['a']]);
+
+    expect(result.ranking.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+    expect(result.winner).toBe('a');
+  });
+
+  it('has no winner without any votes', () => {
+    expect(tabulatePlurality(candidates, [[]]).winner).toBeNull();
+  });
+});
+
+describe('tabulateInstantRunoff', () => {
+  it('declares a first-round majority without eliminating anyone', () => {
+    const result = tabulateInstantRunoff(candidates, [['a'], ['a', 'b'], ['b']]);
+
+    expect(result.winner).toBe('a');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0].eliminated).toEqual([]);
+  });
+
+  it('eliminates the last-placed candidate and transfers its ballots', () => {
+    const result = tabulateInstantRunoff(candidates, [
+      ['a'],
+      ['a'],
+      ['b'],
+      ['b'],
+      ['c', 'b']
+    ]);
+
+    expect(result.rounds[0].tallies).toEqual({ a: 2, b: 2, c: 1 });
+    expect(result.rounds[0].eliminated).toEqual(['c']);
+    expect(result.rounds[1].tallies).toEqual({ a: 2, b: 3 });
+    expect(result.winner).toBe('b');
+    expect(result.ranking.map((r) => r.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('needs a majority of the ballots still in play, not of all ballots', () => {
+    const result = tabulateInstantRunoff(candidates, [['a'], ['a'], ['b'], ['c']]);
+
+    expect(result.rounds[1].exhausted).toBe(1);
+    expect(result.winner).toBe('a');
+  });
+});
+
+describe('tabulateBorda', () => {
+  it('gives unranked candidates nothing on partial rankings', () => {
+    const result = tabulateBorda(candidates, [['c', 'b', 'a'], ['b'], ['a', 'c']]);
+
+    expect(result.rounds[0].tallies).toEqual({ a: 2, b: 3, c: 3 });
+    expect(result.ranking.map((r) => r.id)).toEqual(['b', 'c', 'a']);
+    expect(result.winner).toBe('b');
+  });
+
+  it('counts empty ballots as exhausted', () => {
+    const result = tabulateBorda(candidates, [['a'], []]);
+
+    expect(result.rounds[0].exhausted).toBe(1);
+    expect(result.totalBallots).toBe(2);
+  });
+});
+
+describe('tabulateApproval', () => {
+  it('gives every approved candidate one point, ignoring repeats and unknown ids', () => {
+    const result = tabulateApproval(candidates, [['a', 'b'], ['b', 'b'], ['c', 'x'], ['x']]);
+
+    expect(result.rounds[0].tallies).toEqual({ a: 1, b: 2, c: 1 });
+    expect(result.rounds[0].exhausted).toBe(1);
+    expect(result.winner).toBe('b');
+  });
+
+  it('has no winner without any approvals', () => {
+    expect(tabulateApproval(candidates, []).winner).toBeNull();
+  });
+});
+
+describe('compareForTieBreak', () => {
+  it('puts the higher directory rating first', () => {
+    expect(compareForTieBreak({ id: 'z', averageRating: 4.5 }, { id: 'a', averageRating: 3 })).toBeLessThan(0);
+  });
+
+  it('falls back to id order on equal ratings', () => {
+    const sorted = [
+      { id: 'c', averageRating: 3 },
+      { id: 'a', averageRating: 3 },
+      { id: 'b', averageRating: 3 }
+    ].sort(compareForTieBreak);
+
+    expect(sorted.map((c) => c.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('tabulate', () => {
+  const ballots = [['c', 'b', 'a'], ['b'], ['a', 'c']];
+
+  it.each<VotingMethod>(['plurality', 'ranked', 'approval', 'borda'])('routes %s ballots to its method', (method) => {
+    expect(tabulate(method, candidates, ballots).method).toBe(method);
+  });
+
+  it('falls back to plurality for an unknown method', () => {
+    const result = tabulate('runoff' as VotingMethod, candidates, ballots);
+
+    expect(result).toEqual(tabulatePlurality(candidates, ballots));
+  });
+});
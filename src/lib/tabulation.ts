@@ -0,0 +1,206 @@
+// Vote counting for group polls. Everything here is pure so results can be recomputed
+// on any client from the raw ballots and always come out the same.
+
+export type VotingMethod = 'plurality' | 'ranked' | 'approval' | 'borda';
+
+export interface Candidate {
+  id: string;
+  // Directory rating, used only to break ties
+  averageRating: number;
+}
+
+// Candidate ids in preference order; for approval voting the order doesn't matter
+export type Ballot = string[];
+
+export interface TabulationRound {
+  round: number;
+  tallies: Record<string, number>;
+  // Candidates knocked out at the end of this round (instant runoff only)
+  eliminated: string[];
+  // Ballots with no remaining preferences among the candidates still standing
+  exhausted: number;
+}
+
+export interface RankedCandidate {
+  id: string;
+  score: number;
+}
+
+export interface TabulationResult {
+  method: VotingMethod;
+  winner: string | null;
+  // Every candidate from first to last place
+  ranking: RankedCandidate[];
+  rounds: TabulationRound[];
+  totalBallots: number;
+}
+
+export const VOTING_METHODS: Record<VotingMethod, { label: string; description: string }> = {
+  plurality: {
+    label: 'Single Choice',
+    description: 'Everyone picks one store; most votes wins'
+  },
+  ranked: {
+    label: 'Ranked Choice',
+    description: 'Rank stores in order; the last-placed store is dropped each round until one has a majority'
+  },
+  approval: {
+    label: 'Approval',
+    description: 'Pick every store you would be happy with; most approvals wins'
+  },
+  borda: {
+    label: 'Borda Count',
+    description: 'Rank stores in order; higher places earn more points'
+  }
+};
+
+// Higher directory rating first, then id, so equal scores always resolve the same way
+export const compareForTieBreak = (a: Candidate, b: Candidate) =>
+  b.averageRating - a.averageRating || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+const rankByScore = (candidates: Candidate[], scores: Record<string, number>): RankedCandidate[] =>
+  [...candidates]
+    .sort((a, b) => scores[b.id] - scores[a.id] || compareForTieBreak(a, b))
+    .map((candidate) => ({ id: candidate.id, score: scores[candidate.id] }));
+
+const emptyTallies = (candidates: Candidate[]) =>
+  Object.fromEntries(candidates.map((candidate) => [candidate.id, 0])) as Record<string, number>;
+
+// Drops unknown ids and repeats so a malformed ballot can't count twice for the same candidate
+const cleanBallot = (ballot: Ballot, candidateIds: Set<string>) =>
+  [...new Set(ballot)].filter((id) => candidateIds.has(id));
+
+const singleRound = (
+  method: VotingMethod,
+  candidates: Candidate[],
+  ballots: Ballot[],
+  tallies: Record<string, number>,
+  exhausted: number
+): TabulationResult => {
+  const ranking = rankByScore(candidates, tallies);
+  return {
+    method,
+    winner: ranking[0]?.score > 0 ? ranking[0].id : null,
+    ranking,
+    rounds: [{ round: 1, tallies, eliminated: [], exhausted }],
+    totalBallots: ballots.length
+  };
+};
+
+// Only each ballot's first preference counts
+export const tabulatePlurality = (candidates: Candidate[], ballots: Ballot[]): TabulationResult => {
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+  const tallies = emptyTallies(candidates);
+  let exhausted = 0;
+
+  ballots.forEach((ballot) => {
+    const [first] = cleanBallot(ballot, ids);
+    if (first) {
+      tallies[first]++;
+    } else {
+      exhausted++;
+    }
+  });
+
+  return singleRound('plurality', candidates, ballots, tallies, exhausted);
+};
+
+// Every candidate on a ballot gets one point
+export const tabulateApproval = (candidates: Candidate[], ballots: Ballot[]): TabulationResult => {
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+  const tallies = emptyTallies(candidates);
+  let exhausted = 0;
+
+  ballots.forEach((ballot) => {
+    const approved = cleanBallot(ballot, ids);
+    approved.forEach((id) => tallies[id]++);
+    if (approved.length === 0) exhausted++;
+  });
+
+  return singleRound('approval', candidates, ballots, tallies, exhausted);
+};
+
+// With n candidates, first place earns n - 1 points, second n - 2 and so on; unranked candidates earn nothing
+export const tabulateBorda = (candidates: Candidate[], ballots: Ballot[]): TabulationResult => {
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+  const tallies = emptyTallies(candidates);
+  let exhausted = 0;
+
+  ballots.forEach((ballot) => {
+    const ranked = cleanBallot(ballot, ids);
+    ranked.forEach((id, index) => {
+      tallies[id] += candidates.length - 1 - index;
+    });
+    if (ranked.length === 0) exhausted++;
+  });
+
+  return singleRound('borda', candidates, ballots, tallies, exhausted);
+};
+
+// Instant runoff: count each ballot for its highest-ranked remaining candidate, and eliminate the
+// last-placed candidate until someone holds a majority of the ballots still in play. Ties for last
+// place eliminate whoever loses the tie-break.
+export const tabulateInstantRunoff = (candidates: Candidate[], ballots: Ballot[]): TabulationResult => {
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+  const cleaned = ballots.map((ballot) => cleanBallot(ballot, ids));
+  const remaining = [...candidates];
+  const eliminatedOrder: RankedCandidate[] = [];
+  const rounds: TabulationRound[] = [];
+  let winner: RankedCandidate | null = null;
+
+  while (remaining.length > 0) {
+    const standing = new Set(remaining.map((candidate) => candidate.id));
+    const tallies = emptyTallies(remaining);
+    let exhausted = 0;
+
+    cleaned.forEach((ballot) => {
+      const choice = ballot.find((id) => standing.has(id));
+      if (choice) {
+        tallies[choice]++;
+      } else {
+        exhausted++;
+      }
+    });
+
+    const active = cleaned.length - exhausted;
+    const ordered = rankByScore(remaining, tallies);
+    const round: TabulationRound = { round: rounds.length + 1, tallies, eliminated: [], exhausted };
+    rounds.push(round);
+
+    if (active === 0) break;
+
+    if (ordered[0].score * 2 > active || remaining.length === 1) {
+      winner = ordered[0];
+      break;
+    }
+
+    const last = ordered[ordered.length - 1];
+    round.eliminated.push(last.id);
+    eliminatedOrder.push(last);
+    remaining.splice(remaining.findIndex((candidate) => candidate.id === last.id), 1);
+  }
+
+  // Whoever is still standing finishes ahead of the eliminated, who place in reverse order of elimination
+  const finalTallies = rounds[rounds.length - 1]?.tallies ?? {};
+  const standingRanking = rankByScore(remaining, finalTallies);
+  return {
+    method: 'ranked',
+    winner: winner?.id ?? null,
+    ranking: [...standingRanking, ...eliminatedOrder.reverse()],
+    rounds,
+    totalBallots: ballots.length
+  };
+};
+
+export const tabulate = (method: VotingMethod, candidates: Candidate[], ballots: Ballot[]): TabulationResult => {
+  switch (method) {
+    case 'ranked':
+      return tabulateInstantRunoff(candidates, ballots);
+    case 'approval':
+      return tabulateApproval(candidates, ballots);
+    case 'borda':
+      return tabulateBorda(candidates, ballots);
+    default:
+      return tabulatePlurality(candidates, ballots);
+  }
+};
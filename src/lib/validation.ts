@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+// Field rules shared by every form; the length limits match the CHECK constraints on profiles and stores
+export const nameSchema = z.string()
+  .min(20, 'Name must be at least 20 characters')
+  .max(60, 'Name must be at most 60 characters');
+
+export const emailSchema = z.string().email('Invalid email address');
+
+export const addressSchema = z.string().max(400, 'Address must be at most 400 characters');
+
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(16, 'Password must be at most 16 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character');
+
+export const roleSchema = z.enum(['admin', 'normal_user', 'store_owner']);
+
+// Flattens a ZodError into the first message per top-level field
+export const getFieldErrors = (error: z.ZodError) => {
+  const fieldErrors: Record<string, string> = {};
+  error.errors.forEach((err) => {
+    if (err.path[0] && !fieldErrors[err.path[0] as string]) {
+      fieldErrors[err.path[0] as string] = err.message;
+    }
+  });
+  return fieldErrors;
+};
+
+export const userSchema = z.object({
+  name: nameSchema,
+  email: emailSchema,
+  address: addressSchema.optional(),
+  password: passwordSchema,
+  role: roleSchema
+});
+
+export const storeSchema = z.object({
+  name: nameSchema,
+  email: emailSchema,
+  address: addressSchema.min(1, 'Address is required'),
+  ownerEmail: z.string().email('Invalid owner email address')
+});
+
+// Matches the CHECK constraints on ratings.title and ratings.body
+export const reviewSchema = z.object({
+  title: z.string().trim().max(100, 'Title must be at most 100 characters').optional(),
+  body: z.string().trim().max(2000, 'Review must be at most 2000 characters').optional()
+});
+
+// Matches the CHECK constraint on rating_replies.body
+export const replySchema = z.object({
+  body: z.string().trim()
+    .min(1, 'Reply cannot be empty')
+    .max(1000, 'Reply must be at most 1000 characters')
+});
+
+export const brandSchema = z.object({
+  name: z.string().trim()
+    .min(2, 'Brand name must be at least 2 characters')
+    .max(60, 'Brand name must be at most 60 characters')
+});
+
+export const criterionSchema = z.object({
+  name: z.string().trim()
+    .min(2, 'Criterion name must be at least 2 characters')
+    .max(40, 'Criterion name must be at most 40 characters'),
+  description: z.string().trim().max(200, 'Description must be at most 200 characters').optional()
+});
+
+export const categorySchema = z.object({
+  name: z.string().trim()
+    .min(2, 'Category name must be at least 2 characters')
+    .max(40, 'Category name must be at most 40 characters')
+});
+
+// Matches public.normalize_store_tags() and the cardinality CHECK on stores.tags
+export const tagsSchema = z.array(z.string().max(30, 'Tags must be at most 30 characters'))
+  .max(10, 'A store can have at most 10 tags');
+
+// Splits comma-separated input into the normalized form the database stores
+export const parseTags = (input: string) =>
+  [...new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))].sort();
+
+// Matches the CHECK constraint on store_opening_hours; closing earlier than opening means past midnight
+export const openingRangeSchema = z.object({
+  opens_at: z.string().min(1, 'Opening time is required'),
+  closes_at: z.string().min(1, 'Closing time is required')
+}).refine((range) => range.opens_at !== range.closes_at, {
+  message: 'Opening and closing times must differ',
+  path: ['closes_at']
+});
+
+// Matches the CHECK constraint on store_closures.reason
+export const closureSchema = z.object({
+  closes_on: z.string().min(1, 'Date is required'),
+  reason: z.string().trim().max(100, 'Reason must be at most 100 characters').optional()
+});
+
+// Matches the CHECK constraints on polls; the deadline must be in the future when the poll is created
+export const pollSchema = z.object({
+  title: z.string().trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(80, 'Title must be at most 80 characters'),
+  description: z.string().trim().max(300, 'Description must be at most 300 characters').optional(),
+  closesAt: z.string()
+    .min(1, 'Deadline is required')
+    .refine((value) => new Date(value) > new Date(), 'Deadline must be in the future'),
+  storeIds: z.array(z.string())
+    .min(2, 'Pick at least 2 stores')
+    .max(10, 'Pick at most 10 stores'),
+  // Empty for a venue-only poll
+  dates: z.array(z.string())
+    .max(7, 'Pick at most 7 dates')
+    .refine((dates) => dates.length !== 1, 'Pick at least 2 dates')
+});
+
+// Matches the CHECK constraints on brackets and the size check in public.create_bracket()
+export const bracketSchema = z.object({
+  title: z.string().trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(80, 'Title must be at most 80 characters'),
+  size: z.union([z.literal(8), z.literal(16)]),
+  storeIds: z.array(z.string())
+}).refine((bracket) => bracket.storeIds.length === bracket.size, {
+  message: 'Pick exactly as many stores as the bracket size',
+  path: ['storeIds']
+});
+
+export const storeListSchema = z.object({
+  name: z.string().trim()
+    .min(1, 'List name is required')
+    .max(50, 'List name must be at most 50 characters')
+});
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate, type Location } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,21 +7,18 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { addressSchema, emailSchema, getFieldErrors, nameSchema, passwordSchema } from '@/lib/validation';
 import { z } from 'zod';
 
 const signUpSchema = z.object({
-  name: z.string().min(20, 'Name must be at least 20 characters').max(60, 'Name must be at most 60 characters'),
-  email: z.string().email('Invalid email address'),
-  address: z.string().max(400, 'Address must be at most 400 characters').optional(),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(16, 'Password must be at most 16 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character')
+  name: nameSchema,
+  email: emailSchema,
+  address: addressSchema.optional(),
+  password: passwordSchema
 });
 
 const signInSchema = z.object({
-  email: z.string().email('Invalid email address'),
+  email: emailSchema,
   password: z.string().min(1, 'Password is required')
 });
 
@@ -38,12 +35,14 @@ const Auth = () => {
   
   const { signUp, signIn, user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(from ? `${from.pathname}${from.search}` : '/', { replace: Boolean(from) });
     }
-  }, [user, navigate]);
+  }, [user, navigate, from]);
 
   const validateForm = () => {
     try {
@@ -56,13 +55,7 @@ const Auth = () => {
       return true;
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const fieldErrors: Record<string, string> = {};
-        error.errors.forEach((err) => {
-          if (err.path[0]) {
-            fieldErrors[err.path[0] as string] = err.message;
-          }
-        });
-        setErrors(fieldErrors);
+        setErrors(getFieldErrors(error));
       }
       return false;
     }
@@ -79,7 +72,10 @@ const Auth = () => {
 
     try {
       if (isSignUp) {
-        const { error } = await signUp(formData.email, formData.password, formData.name, formData.address);
+        const { error } = await signUp(formData.email, formData.password, {
+          name: formData.name,
+          address: formData.address
+        });
         if (error) {
           if (error.message.includes('already registered')) {
             toast({
@@ -186,7 +182,14 @@ const Auth = () => {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                {!isSignUp && (
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
+                )}
+              </div>
               <Input
                 id="password"
                 type="password"
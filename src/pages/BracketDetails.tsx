@@ -0,0 +1,358 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Link as LinkIcon, LogOut, Trash2, Trophy, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+import BracketView, { type BracketEntry, type BracketMatch, type BracketVote } from '@/components/BracketView';
+import { getRoundCount, getRoundName } from '@/lib/brackets';
+import { getInviteLink } from '@/lib/invites';
+
+interface Bracket {
+  id: string;
+  title: string;
+  size: number;
+  created_by: string;
+  invite_code: string;
+  current_round: number;
+  champion_store_id: string | null;
+  completed_at: string | null;
+}
+
+const BracketDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [bracket, setBracket] = useState<Bracket | null>(null);
+  const [entries, setEntries] = useState<Record<string, BracketEntry>>({});
+  const [matches, setMatches] = useState<BracketMatch[]>([]);
+  const [votes, setVotes] = useState<BracketVote[]>([]);
+  const [participantCount, setParticipantCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [id, profile]);
+
+  // Votes stream in live, and closed rounds show up for everyone as soon as the organizer advances
+  useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase
+      .channel(`bracket-${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bracket_votes', filter: `bracket_id=eq.${id}` }, () => fetchVotes())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bracket_matches', filter: `bracket_id=eq.${id}` }, () => fetchBracket())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  const fetchData = async () => {
+    if (!id || !profile) return;
+
+    setLoading(true);
+    const [entriesResult, participantsResult] = await Promise.all([
+      supabase
+        .from('bracket_entries')
+        .select('store_id, seed, store_ratings (name)')
+        .eq('bracket_id', id),
+      supabase
+        .from('bracket_participants')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('bracket_id', id)
+    ]);
+
+    if (entriesResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch bracket', variant: 'destructive' });
+    } else {
+      setEntries(Object.fromEntries((entriesResult.data || []).map((entry) => [
+        entry.store_id,
+        { seed: entry.seed, name: entry.store_ratings?.name ?? 'Store no longer listed' }
+      ])));
+    }
+    setParticipantCount(participantsResult.count ?? 0);
+
+    await Promise.all([fetchBracket(), fetchVotes()]);
+    setLoading(false);
+  };
+
+  // The bracket row and its matches change together whenever a round is advanced
+  const fetchBracket = async () => {
+    if (!id) return;
+
+    const [bracketResult, matchesResult] = await Promise.all([
+      supabase
+        .from('brackets')
+        .select('id, title, size, created_by, invite_code, current_round, champion_store_id, completed_at')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('bracket_matches')
+        .select('id, round, slot, store_a_id, store_b_id, winner_store_id')
+        .eq('bracket_id', id)
+    ]);
+
+    setBracket(bracketResult.data);
+    setMatches(matchesResult.data || []);
+  };
+
+  const fetchVotes = async () => {
+    if (!id) return;
+
+    const { data } = await supabase
+      .from('bracket_votes')
+      .select('match_id, user_id, store_id')
+      .eq('bracket_id', id);
+
+    setVotes(data || []);
+  };
+
+  // Picking the store you already voted for withdraws the vote
+  const vote = async (match: BracketMatch, storeId: string) => {
+    if (!bracket || !profile) return;
+
+    const current = votes.find((v) => v.match_id === match.id && v.user_id === profile.id);
+    const { error } = current?.store_id === storeId
+      ? await supabase
+        .from('bracket_votes')
+        .delete()
+        .eq('match_id', match.id)
+        .eq('user_id', profile.id)
+      : await supabase
+        .from('bracket_votes')
+        .upsert(
+          { match_id: match.id, bracket_id: bracket.id, user_id: profile.id, store_id: storeId },
+          { onConflict: 'match_id,user_id' }
+        );
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      fetchVotes();
+    }
+  };
+
+  const advanceBracket = async () => {
+    if (!bracket) return;
+
+    const { error } = await supabase.rpc('advance_bracket', { _bracket_id: bracket.id });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      fetchBracket();
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!bracket) return;
+
+    try {
+      await navigator.clipboard.writeText(getInviteLink('bracket', bracket.invite_code));
+      toast({ title: 'Link copied', description: 'Anyone with the link can join until the champion is crowned' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  const deleteBracket = async () => {
+    if (!bracket) return;
+
+    const { error } = await supabase
+      .from('brackets')
+      .delete()
+      .eq('id', bracket.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Bracket deleted' });
+      navigate('/brackets');
+    }
+  };
+
+  const leaveBracket = async () => {
+    if (!bracket || !profile) return;
+
+    const { error } = await supabase
+      .from('bracket_participants')
+      .delete()
+      .eq('bracket_id', bracket.id)
+      .eq('user_id', profile.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      navigate('/brackets');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!bracket) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="p-6 max-w-4xl mx-auto text-center space-y-4">
+          <h1 className="text-2xl font-bold">Bracket not found</h1>
+          <p className="text-muted-foreground">It may have been deleted, or you haven't joined it yet.</p>
+          <Button asChild variant="outline">
+            <Link to="/brackets">Back to Brackets</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOrganizer = bracket.created_by === profile?.id;
+  const isFinished = bracket.completed_at !== null;
+  const roundCount = getRoundCount(bracket.size);
+  const roundName = getRoundName(bracket.current_round, roundCount);
+  const isFinal = bracket.current_round === roundCount;
+  const roundMatchIds = new Set(matches.filter((m) => m.round === bracket.current_round).map((m) => m.id));
+  const roundVoters = new Set(votes.filter((v) => roundMatchIds.has(v.match_id)).map((v) => v.user_id));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" className="-ml-2" asChild>
+            <Link to="/brackets">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Brackets
+            </Link>
+          </Button>
+          {!isFinished && (
+            <Button variant="outline" size="sm" onClick={copyInviteLink}>
+              <LinkIcon className="h-4 w-4 mr-2" />
+              Copy Invite Link
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-3">
+              <CardTitle className="text-3xl">{bracket.title}</CardTitle>
+              <Badge variant={isFinished ? 'secondary' : 'default'}>{isFinished ? 'Finished' : roundName}</Badge>
+              <Badge variant="outline">{bracket.size} stores</Badge>
+            </div>
+            <CardDescription>
+              {isFinished
+                ? `Champion crowned ${format(new Date(bracket.completed_at as string), 'PPp')}`
+                : 'Vote in each matchup. When the organizer closes the round, the store with more votes advances; ties go to the higher seed.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center justify-between gap-4">
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Users className="h-4 w-4" />
+              {isFinished
+                ? `${participantCount} ${participantCount === 1 ? 'participant' : 'participants'}`
+                : `${roundVoters.size} of ${participantCount} voted this round`}
+            </span>
+            <div className="flex gap-2">
+              {isOrganizer ? (
+                <>
+                  {!isFinished && (
+                    <Button
+                      size="sm"
+                      onClick={() => setConfirmAction({
+                        title: isFinal ? 'Crown the champion?' : `Close the ${roundName}?`,
+                        description: 'Winners are decided by the current votes and can no longer be changed.',
+                        confirmLabel: isFinal ? 'Crown champion' : 'Close round',
+                        onConfirm: advanceBracket
+                      })}
+                    >
+                      {isFinal ? 'Crown Champion' : 'Close Round'}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setConfirmAction({
+                      title: 'Delete bracket?',
+                      description: `${bracket.title} and all of its votes will be removed for everyone. This cannot be undone.`,
+                      confirmLabel: 'Delete',
+                      destructive: true,
+                      onConfirm: deleteBracket
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmAction({
+                    title: 'Leave bracket?',
+                    description: 'Your votes will be removed. You can rejoin with the invite link until the champion is crowned.',
+                    confirmLabel: 'Leave',
+                    onConfirm: leaveBracket
+                  })}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Leave
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {bracket.champion_store_id && (
+          <Card className="border-primary">
+            <CardContent className="flex items-center gap-4 py-6">
+              <Trophy className="h-8 w-8 text-yellow-500" />
+              <div>
+                <p className="text-sm text-muted-foreground">Your group's champion</p>
+                <Link to={`/stores/${bracket.champion_store_id}`} className="text-xl font-semibold hover:underline">
+                  {entries[bracket.champion_store_id]?.name ?? 'Store no longer listed'}
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="pt-6">
+            <BracketView
+              size={bracket.size}
+              matches={matches}
+              entries={entries}
+              votes={votes}
+              currentRound={bracket.current_round}
+              championId={bracket.champion_store_id}
+              profileId={profile?.id}
+              onVote={isFinished ? undefined : vote}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        action={confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      />
+    </div>
+  );
+};
+
+export default BracketDetails;
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { GitFork, Plus, Trophy } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import CreateBracketDialog from '@/components/CreateBracketDialog';
+import { getRoundCount, getRoundName } from '@/lib/brackets';
+import { parseInviteCode } from '@/lib/invites';
+
+interface BracketSummary {
+  id: string;
+  title: string;
+  size: number;
+  current_round: number;
+  created_by: string;
+  completed_at: string | null;
+  created_at: string;
+  stores: { name: string } | null;
+}
+
+const Brackets = () => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [brackets, setBrackets] = useState<BracketSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteInput, setInviteInput] = useState('');
+  const [createOpen, setCreateOpen] = useState(false);
+
+  useEffect(() => {
+    fetchBrackets();
+  }, [profile]);
+
+  const fetchBrackets = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('brackets')
+      .select(`
+        id, title, size, current_round, created_by, completed_at, created_at,
+        stores!brackets_champion_store_id_fkey (name),
+        bracket_participants!inner (user_id)
+      `)
+      .eq('bracket_participants.user_id', profile.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch brackets', variant: 'destructive' });
+    } else {
+      setBrackets(data || []);
+    }
+    setLoading(false);
+  };
+
+  const joinBracket = () => {
+    const code = parseInviteCode(inviteInput);
+    if (code) {
+      navigate(`/brackets/join/${code}`);
+    }
+  };
+
+  const active = brackets.filter((bracket) => !bracket.completed_at);
+  const history = brackets.filter((bracket) => bracket.completed_at);
+
+  const renderBracket = (bracket: BracketSummary) => (
+    <Link key={bracket.id} to={`/brackets/${bracket.id}`}>
+      <Card className="h-full hover:shadow-lg transition-shadow">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-lg">{bracket.title}</CardTitle>
+            {bracket.created_by === profile?.id && <Badge variant="secondary">Organizer</Badge>}
+          </div>
+          <CardDescription>{bracket.size} stores · started {format(new Date(bracket.created_at), 'PP')}</CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm">
+          {bracket.completed_at ? (
+            <span className="flex items-center gap-2 font-medium">
+              <Trophy className="h-4 w-4 text-yellow-500" />
+              {bracket.stores?.name ?? 'Store no longer listed'}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">
+              Now playing: {getRoundName(bracket.current_round, getRoundCount(bracket.size))}
+            </span>
+          )}
+        </CardContent>
+      </Card>
+    </Link>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold">Brackets</h1>
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Bracket
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Join a Bracket</CardTitle>
+            <CardDescription>Paste the invite link or code someone shared with you</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              placeholder="Invite link or code"
+              value={inviteInput}
+              onChange={(e) => setInviteInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && joinBracket()}
+            />
+            <Button variant="outline" onClick={joinBracket} disabled={!inviteInput.trim()}>
+              Join
+            </Button>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="text-center text-muted-foreground py-6">Loading...</div>
+        ) : brackets.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center space-y-2">
+              <GitFork className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">No brackets yet. Pit 8 or 16 stores against each other and crown a champion.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {active.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xl font-semibold">In Progress</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{active.map(renderBracket)}</div>
+              </section>
+            )}
+            {history.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xl font-semibold">History</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{history.map(renderBracket)}</div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+
+      <CreateBracketDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onCreated={(bracketId) => navigate(`/brackets/${bracketId}`)}
+      />
+    </div>
+  );
+};
+
+export default Brackets;
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Star, Store as StoreIcon, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import Navbar from '@/components/Navbar';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import StarRating from '@/components/StarRating';
+
+interface BrandInfo {
+  id: string;
+  name: string;
+  store_count: number;
+  average_rating: number;
+  total_ratings: number;
+}
+
+interface BrandLocation {
+  id: string;
+  name: string;
+  address: string;
+  average_rating: number;
+  total_ratings: number;
+}
+
+const BrandDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [brand, setBrand] = useState<BrandInfo | null>(null);
+  const [locations, setLocations] = useState<BrandLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, [id]);
+
+  const fetchData = async () => {
+    if (!id) return;
+
+    setLoading(true);
+
+    const [brandResult, locationsResult] = await Promise.all([
+      supabase
+        .from('brand_ratings')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('store_ratings')
+        .select('id, name, address, average_rating, total_ratings')
+        .eq('brand_id', id)
+        .is('deleted_at', null)
+        .order('average_rating', { ascending: false })
+        .order('total_ratings', { ascending: false })
+    ]);
+
+    if (brandResult.error || locationsResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch brand', variant: 'destructive' });
+    } else {
+      setBrand(brandResult.data);
+      setLocations(locationsResult.data || []);
+    }
+
+    setLoading(false);
+  };
+
+  const locationColumns: DataTableColumn<BrandLocation>[] = [
+    {
+      key: 'rank',
+      header: '#',
+      className: 'w-12 text-muted-foreground',
+      // Rank follows rating order however the table is re-sorted
+      cell: (store) => locations.findIndex((l) => l.id === store.id) + 1
+    },
+    { key: 'name', header: 'BrandLocation', sortable: true, className: 'font-medium', cell: (store) => store.name },
+    { key: 'address', header: 'Address', sortable: true, cell: (store) => store.address },
+    {
+      key: 'average_rating',
+      header: 'Rating',
+      sortable: true,
+      cell: (store) => (
+        <div className="flex items-center space-x-2">
+          <StarRating rating={Math.round(store.average_rating)} size="sm" />
+          <span className="text-sm">{store.average_rating.toFixed(1)}</span>
+        </div>
+      )
+    },
+    { key: 'total_ratings', header: 'Reviews', sortable: true, cell: (store) => store.total_ratings }
+  ];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!brand) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="p-6 max-w-4xl mx-auto">
+          <Card>
+            <CardContent className="py-6 text-center space-y-4">
+              <h2 className="text-2xl font-bold">Brand Not Found</h2>
+              <p className="text-muted-foreground">This brand doesn't exist or has been removed.</p>
+              <Button variant="outline" asChild>
+                <Link to="/dashboard">Back to Dashboard</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        <Button variant="ghost" size="sm" className="-ml-2" asChild>
+          <Link to="/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-3xl">{brand.name}</CardTitle>
+            <CardDescription>Ratings across every location of this brand</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <Star className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{brand.average_rating.toFixed(1)}</p>
+                  <p className="text-sm text-muted-foreground">Average Rating</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <Users className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{brand.total_ratings}</p>
+                  <p className="text-sm text-muted-foreground">Total Reviews</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="p-3 bg-primary/10 rounded-full">
+                  <StoreIcon className="h-6 w-6 text-primary" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{brand.store_count}</p>
+                  <p className="text-sm text-muted-foreground">Locations</p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Locations</CardTitle>
+            <CardDescription>Ranked by average rating</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              columns={locationColumns}
+              rows={locations}
+              getRowKey={(store) => store.id}
+              onRowClick={(store) => navigate(`/stores/${store.id}`)}
+              emptyMessage="No locations belong to this brand yet."
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default BrandDetails;
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import type { InviteKind } from '@/lib/invites';
+
+interface JoinInviteProps {
+  kind: InviteKind;
+}
+
+// Landing page for poll and bracket invite links: joins, then hands over to the poll or bracket page
+const JoinInvite = ({ kind }: JoinInviteProps) => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    join();
+  }, [code, kind]);
+
+  const join = async () => {
+    if (!code) return;
+
+    const { data, error } = await supabase.rpc(kind === 'poll' ? 'join_poll' : 'join_bracket', { _invite_code: code });
+    if (error) {
+      setError(error.message);
+    } else {
+      navigate(`/${kind}s/${data}`, { replace: true });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-md mx-auto">
+        {error ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Couldn't join {kind}</CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline">
+                <Link to={`/${kind}s`}>{kind === 'poll' ? 'Back to Polls' : 'Back to Brackets'}</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="text-center text-lg py-10">Joining {kind}...</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JoinInvite;
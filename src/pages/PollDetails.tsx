@@ -0,0 +1,587 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CalendarCheck, Check, Clock, Link as LinkIcon, LogOut, Trash2, Trophy, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+import PollBallot, { type BallotOption } from '@/components/PollBallot';
+import PollResults from '@/components/PollResults';
+import PollAvailability from '@/components/PollAvailability';
+import { VOTING_METHODS, tabulate, type Ballot, type VotingMethod } from '@/lib/tabulation';
+import { getInviteLink } from '@/lib/invites';
+import { isOpenOnDate, type StoreSchedule } from '@/lib/opening-hours';
+import { rankSchedulePlans, type Availability, type CandidateDate, type SchedulePlan } from '@/lib/scheduling';
+
+interface Poll {
+  id: string;
+  title: string;
+  description: string | null;
+  created_by: string;
+  invite_code: string;
+  closes_at: string;
+  voting_method: VotingMethod;
+}
+
+interface PollOption {
+  id: string;
+  store_id: string;
+  store_ratings: {
+    name: string | null;
+    address: string | null;
+    average_rating: number | null;
+  } | null;
+}
+
+interface PollVote {
+  user_id: string;
+  option_id: string;
+  rank: number | null;
+}
+
+interface Participant {
+  user_id: string | null;
+  name: string | null;
+}
+
+const PollDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [options, setOptions] = useState<PollOption[]>([]);
+  const [votes, setVotes] = useState<PollVote[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [dates, setDates] = useState<CandidateDate[]>([]);
+  const [availability, setAvailability] = useState<Availability[]>([]);
+  const [schedules, setSchedules] = useState<Record<string, StoreSchedule>>({});
+  const [savingAvailability, setSavingAvailability] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [voting, setVoting] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    fetchData();
+  }, [id, profile]);
+
+  // Other participants' votes and arrivals stream in so results stay live
+  useEffect(() => {
+    if (!id) return;
+
+    const channel = supabase
+      .channel(`poll-${id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'poll_votes', filter: `poll_id=eq.${id}` }, () => fetchVotes())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'poll_participants', filter: `poll_id=eq.${id}` }, () => fetchParticipants())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'poll_availability', filter: `poll_id=eq.${id}` }, () => fetchAvailability())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id]);
+
+  // Keeps the countdown current and flips the page to closed when the deadline passes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fetchData = async () => {
+    if (!id || !profile) return;
+
+    setLoading(true);
+    const [pollResult, optionsResult, datesResult] = await Promise.all([
+      supabase
+        .from('polls')
+        .select('id, title, description, created_by, invite_code, closes_at, voting_method')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('poll_options')
+        .select('id, store_id, store_ratings (name, address, average_rating)')
+        .eq('poll_id', id),
+      supabase
+        .from('poll_dates')
+        .select('id, date')
+        .eq('poll_id', id)
+        .order('date')
+    ]);
+
+    if (pollResult.error || optionsResult.error || datesResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch poll', variant: 'destructive' });
+    } else {
+      setPoll(pollResult.data);
+      setOptions(optionsResult.data || []);
+      setDates(datesResult.data || []);
+    }
+
+    await Promise.all([fetchVotes(), fetchParticipants(), fetchAvailability()]);
+    if ((datesResult.data || []).length > 0) {
+      await fetchSchedules((optionsResult.data || []).map((option) => option.store_id));
+    }
+    setLoading(false);
+  };
+
+  const fetchVotes = async () => {
+    if (!id) return;
+
+    const { data } = await supabase
+      .from('poll_votes')
+      .select('user_id, option_id, rank')
+      .eq('poll_id', id);
+
+    setVotes(data || []);
+  };
+
+  const fetchParticipants = async () => {
+    if (!id) return;
+
+    const { data } = await supabase
+      .from('poll_participant_names')
+      .select('user_id, name')
+      .eq('poll_id', id)
+      .order('joined_at');
+
+    setParticipants(data || []);
+  };
+
+  const fetchAvailability = async () => {
+    if (!id) return;
+
+    const { data } = await supabase
+      .from('poll_availability')
+      .select('date_id, user_id')
+      .eq('poll_id', id);
+
+    setAvailability(data || []);
+  };
+
+  // Opening hours of the shortlisted stores, so dates they're shut can be ruled out
+  const fetchSchedules = async (storeIds: string[]) => {
+    const [hoursResult, closuresResult] = await Promise.all([
+      supabase
+        .from('store_opening_hours')
+        .select('store_id, weekday, opens_at, closes_at')
+        .in('store_id', storeIds),
+      supabase
+        .from('store_closures')
+        .select('store_id, closes_on')
+        .in('store_id', storeIds)
+        .gte('closes_on', format(new Date(), 'yyyy-MM-dd'))
+    ]);
+
+    const next: Record<string, StoreSchedule> = {};
+    const scheduleFor = (storeId: string) => (next[storeId] ??= { hours: [], closures: [] });
+    (hoursResult.data || []).forEach(({ store_id, ...range }) => scheduleFor(store_id).hours.push(range));
+    (closuresResult.data || []).forEach(({ store_id, ...closure }) => scheduleFor(store_id).closures.push(closure));
+    setSchedules(next);
+  };
+
+  const toggleAvailability = async (dateId: string, available: boolean) => {
+    if (!poll || !profile) return;
+
+    setSavingAvailability(true);
+    const { error } = available
+      ? await supabase
+        .from('poll_availability')
+        .insert({ poll_id: poll.id, date_id: dateId, user_id: profile.id })
+      : await supabase
+        .from('poll_availability')
+        .delete()
+        .eq('date_id', dateId)
+        .eq('user_id', profile.id);
+    setSavingAvailability(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      fetchAvailability();
+    }
+  };
+
+  // Replaces the participant's whole ballot; an empty list withdraws it
+  const submitBallot = async (optionIds: string[]) => {
+    if (!poll) return;
+
+    setVoting(true);
+    const { error } = await supabase.rpc('submit_poll_ballot', { _poll_id: poll.id, _option_ids: optionIds });
+    setVoting(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      if (poll.voting_method !== 'plurality') {
+        toast({ title: 'Success', description: optionIds.length > 0 ? 'Ballot saved' : 'Ballot withdrawn' });
+      }
+      fetchVotes();
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!poll) return;
+
+    try {
+      await navigator.clipboard.writeText(getInviteLink('poll', poll.invite_code));
+      toast({ title: 'Link copied', description: 'Anyone with the link can join until voting closes' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  const closePoll = async () => {
+    if (!poll) return;
+
+    const { error } = await supabase
+      .from('polls')
+      .update({ closes_at: new Date().toISOString() })
+      .eq('id', poll.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Voting closed' });
+      fetchData();
+    }
+  };
+
+  const deletePoll = async () => {
+    if (!poll) return;
+
+    const { error } = await supabase
+      .from('polls')
+      .delete()
+      .eq('id', poll.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'Poll deleted' });
+      navigate('/polls');
+    }
+  };
+
+  const leavePoll = async () => {
+    if (!poll || !profile) return;
+
+    const { error } = await supabase
+      .from('poll_participants')
+      .delete()
+      .eq('poll_id', poll.id)
+      .eq('user_id', profile.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      navigate('/polls');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!poll) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="p-6 max-w-4xl mx-auto text-center space-y-4">
+          <h1 className="text-2xl font-bold">Poll not found</h1>
+          <p className="text-muted-foreground">It may have been deleted, or you haven't joined it yet.</p>
+          <Button asChild variant="outline">
+            <Link to="/polls">Back to Polls</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = new Date(poll.closes_at) > now;
+  const isOrganizer = poll.created_by === profile?.id;
+
+  // Each participant's rows, in rank order where the method uses ranks
+  const ballotsByUser = new Map<string, PollVote[]>();
+  votes.forEach((vote) => ballotsByUser.set(vote.user_id, [...(ballotsByUser.get(vote.user_id) || []), vote]));
+  const toBallot = (rows: PollVote[]): Ballot =>
+    [...rows].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0)).map((row) => row.option_id);
+  const ownBallot = profile ? toBallot(ballotsByUser.get(profile.id) || []) : [];
+
+  const result = tabulate(
+    poll.voting_method,
+    options.map((option) => ({ id: option.id, averageRating: option.store_ratings?.average_rating ?? 0 })),
+    [...ballotsByUser.values()].map(toBallot)
+  );
+
+  const labels = Object.fromEntries(options.map((option) => [
+    option.id,
+    { name: option.store_ratings?.name ?? 'Store no longer listed', storeId: option.store_id }
+  ]));
+  const ballotOptions: BallotOption[] = options
+    .map((option) => ({
+      id: option.id,
+      storeId: option.store_id,
+      name: labels[option.id].name,
+      address: option.store_ratings?.address ?? null
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const winner = result.winner ? labels[result.winner] : null;
+
+  const isStoreOpenOn = (optionId: string, date: string) => {
+    const storeId = labels[optionId]?.storeId;
+    const schedule = storeId ? schedules[storeId] : undefined;
+    return schedule ? isOpenOnDate(schedule.hours, schedule.closures, date) : null;
+  };
+  const plans = rankSchedulePlans(dates, availability, result.ranking.map((entry) => entry.id), isStoreOpenOn);
+  const [bestPlan, ...otherPlans] = plans[0]?.available > 0 ? plans : [];
+  const closedStores = Object.fromEntries(dates.map((candidate) => [
+    candidate.id,
+    options
+      .filter((option) => isStoreOpenOn(option.id, candidate.date) === false)
+      .map((option) => labels[option.id].name)
+  ]));
+  const participantNames = Object.fromEntries(participants
+    .filter((participant) => participant.user_id)
+    .map((participant) => [participant.user_id as string, participant.name ?? 'Unknown']));
+  const describePlan = (plan: SchedulePlan) =>
+    `${plan.available} of ${participants.length} available · #${plan.venuePlace} in the vote` +
+    (plan.openOnDate ? ' · open that day' : ' · hours not listed');
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" className="-ml-2" asChild>
+            <Link to="/polls">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Polls
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={copyInviteLink}>
+            <LinkIcon className="h-4 w-4 mr-2" />
+            Copy Invite Link
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-3">
+              <CardTitle className="text-3xl">{poll.title}</CardTitle>
+              <Badge variant={isOpen ? 'default' : 'secondary'}>{isOpen ? 'Open' : 'Closed'}</Badge>
+              <Badge variant="outline">{VOTING_METHODS[poll.voting_method].label}</Badge>
+            </div>
+            {poll.description && <CardDescription>{poll.description}</CardDescription>}
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-6 text-sm text-muted-foreground">
+              <span className="flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                {isOpen ? 'Closes' : 'Closed'} {formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}
+                {' · '}{format(new Date(poll.closes_at), 'PPp')}
+              </span>
+              <span className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                {ballotsByUser.size} of {participants.length} voted
+              </span>
+            </div>
+            <div className="flex gap-2">
+              {isOrganizer ? (
+                <>
+                  {isOpen && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setConfirmAction({
+                        title: 'Close voting now?',
+                        description: 'Participants will no longer be able to vote or change their votes.',
+                        confirmLabel: 'Close voting',
+                        onConfirm: closePoll
+                      })}
+                    >
+                      Close Voting
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setConfirmAction({
+                      title: 'Delete poll?',
+                      description: `${poll.title} and all of its votes will be removed for everyone. This cannot be undone.`,
+                      confirmLabel: 'Delete',
+                      destructive: true,
+                      onConfirm: deletePoll
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmAction({
+                    title: 'Leave poll?',
+                    description: 'Your vote will be removed. You can rejoin with the invite link while voting is open.',
+                    confirmLabel: 'Leave',
+                    onConfirm: leavePoll
+                  })}
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Leave
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {!isOpen && winner && dates.length === 0 && (
+          <Card className="border-primary">
+            <CardContent className="flex items-center gap-4 py-6">
+              <Trophy className="h-8 w-8 text-yellow-500" />
+              <div>
+                <p className="text-sm text-muted-foreground">The group picked</p>
+                <Link to={`/stores/${winner.storeId}`} className="text-xl font-semibold hover:underline">
+                  {winner.name}
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {isOpen && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Ballot</CardTitle>
+              <CardDescription>
+                {VOTING_METHODS[poll.voting_method].description}. You can change your ballot until voting closes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PollBallot
+                method={poll.voting_method}
+                options={ballotOptions}
+                savedBallot={ownBallot}
+                saving={voting}
+                onSubmit={submitBallot}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {dates.length > 0 && (
+          <Card className={!isOpen && bestPlan ? 'border-primary' : undefined}>
+            <CardHeader>
+              <CardTitle>{isOpen ? 'Best Plan So Far' : 'The Plan'}</CardTitle>
+              <CardDescription>
+                The date most people can make, at the group's favorite store that's open that day
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {bestPlan ? (
+                <>
+                  <div className="flex items-center gap-4">
+                    {isOpen ? <CalendarCheck className="h-8 w-8 text-primary" /> : <Trophy className="h-8 w-8 text-yellow-500" />}
+                    <div>
+                      <p className="text-xl font-semibold">
+                        {format(parseISO(bestPlan.date), 'EEEE, MMM d')} at{' '}
+                        <Link to={`/stores/${labels[bestPlan.optionId].storeId}`} className="hover:underline">
+                          {labels[bestPlan.optionId].name}
+                        </Link>
+                      </p>
+                      <p className="text-sm text-muted-foreground">{describePlan(bestPlan)}</p>
+                    </div>
+                  </div>
+                  {otherPlans.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Runners-up</p>
+                      {otherPlans.slice(0, 3).map((plan) => (
+                        <p key={`${plan.dateId}-${plan.optionId}`} className="text-sm text-muted-foreground">
+                          {format(parseISO(plan.date), 'EEE, MMM d')} at {labels[plan.optionId].name} · {describePlan(plan)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {plans.length === 0 && availability.length > 0
+                    ? 'None of the shortlisted stores are open on the candidate dates.'
+                    : 'A recommendation appears once participants mark the dates they can make.'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {dates.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Availability</CardTitle>
+              <CardDescription>
+                {isOpen ? 'Tick every date you can make. You can change this until voting closes.' : 'Who could make each date'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PollAvailability
+                dates={dates}
+                availability={availability}
+                participantNames={participantNames}
+                profileId={profile?.id}
+                isOpen={isOpen}
+                saving={savingAvailability}
+                closedStores={closedStores}
+                onToggle={toggleAvailability}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{isOpen ? 'Live Results' : 'Results'}</CardTitle>
+            <CardDescription>
+              {result.totalBallots} {result.totalBallots === 1 ? 'ballot' : 'ballots'} counted
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PollResults result={result} labels={labels} isOpen={isOpen} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Participants</CardTitle>
+            <CardDescription>Share the invite link to add more people</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {participants.map((participant) => (
+              <Badge key={participant.user_id} variant="outline" className="gap-1 font-normal">
+                {participant.user_id && ballotsByUser.has(participant.user_id) && <Check className="h-3 w-3" />}
+                {participant.name}
+                {participant.user_id === poll.created_by && ' (organizer)'}
+              </Badge>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        action={confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      />
+    </div>
+  );
+};
+
+export default PollDetails;
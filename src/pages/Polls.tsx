@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Vote } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import CreatePollDialog from '@/components/CreatePollDialog';
+import { VOTING_METHODS, type VotingMethod } from '@/lib/tabulation';
+import { parseInviteCode } from '@/lib/invites';
+
+interface PollSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  closes_at: string;
+  created_by: string;
+  voting_method: VotingMethod;
+  poll_options: { count: number }[];
+  poll_dates: { count: number }[];
+}
+
+const Polls = () => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [polls, setPolls] = useState<PollSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteInput, setInviteInput] = useState('');
+  const [createOpen, setCreateOpen] = useState(false);
+
+  useEffect(() => {
+    fetchPolls();
+  }, [profile]);
+
+  const fetchPolls = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    // Admins can see every poll, but this page only lists the ones the user takes part in
+    const { data, error } = await supabase
+      .from('polls')
+      .select('id, title, description, closes_at, created_by, voting_method, poll_options(count), poll_dates(count), poll_participants!inner(user_id)')
+      .eq('poll_participants.user_id', profile.id)
+      .order('closes_at', { ascending: false });
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch polls', variant: 'destructive' });
+    } else {
+      setPolls(data || []);
+    }
+    setLoading(false);
+  };
+
+  const joinPoll = () => {
+    const code = parseInviteCode(inviteInput);
+    if (code) {
+      navigate(`/polls/join/${code}`);
+    }
+  };
+
+  const now = new Date();
+  const openPolls = polls.filter((poll) => new Date(poll.closes_at) > now);
+  const closedPolls = polls.filter((poll) => new Date(poll.closes_at) <= now);
+
+  const renderPoll = (poll: PollSummary) => {
+    const isOpen = new Date(poll.closes_at) > now;
+    return (
+      <Link key={poll.id} to={`/polls/${poll.id}`}>
+        <Card className="h-full hover:shadow-lg transition-shadow">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <CardTitle className="text-lg">{poll.title}</CardTitle>
+              {poll.created_by === profile?.id && <Badge variant="secondary">Organizer</Badge>}
+            </div>
+            {poll.description && <CardDescription className="line-clamp-2">{poll.description}</CardDescription>}
+          </CardHeader>
+          <CardContent className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {poll.poll_options[0]?.count ?? 0} stores
+              {(poll.poll_dates[0]?.count ?? 0) > 0 && ` · ${poll.poll_dates[0].count} dates`}
+              {' · '}{VOTING_METHODS[poll.voting_method].label}
+            </span>
+            <span>
+              {isOpen ? 'Closes' : 'Closed'} {formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}
+            </span>
+          </CardContent>
+        </Card>
+      </Link>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold">Polls</h1>
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Poll
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Join a Poll</CardTitle>
+            <CardDescription>Paste the invite link or code someone shared with you</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              placeholder="Invite link or code"
+              value={inviteInput}
+              onChange={(e) => setInviteInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && joinPoll()}
+            />
+            <Button variant="outline" onClick={joinPoll} disabled={!inviteInput.trim()}>
+              Join
+            </Button>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="text-center text-muted-foreground py-6">Loading...</div>
+        ) : polls.length === 0 ? (
+          <Card>
+            <CardContent className="py-10 text-center space-y-2">
+              <Vote className="h-10 w-10 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground">You're not in any polls yet. Start one and invite your group.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {openPolls.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xl font-semibold">Open</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{openPolls.map(renderPoll)}</div>
+              </section>
+            )}
+            {closedPolls.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xl font-semibold">Closed</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{closedPolls.map(renderPoll)}</div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+
+      <CreatePollDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onCreated={(pollId) => navigate(`/polls/${pollId}`)}
+      />
+    </div>
+  );
+};
+
+export default Polls;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { useAuth, type ProfileDetails } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import { addressSchema, emailSchema, getFieldErrors, nameSchema } from '@/lib/validation';
+import { z } from 'zod';
+
+const profileSchema = z.object({
+  name: nameSchema,
+  address: addressSchema.optional()
+});
+
+const ProfileField = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="space-y-1">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="font-medium whitespace-pre-line">{value}</p>
+  </div>
+);
+
+const Profile = () => {
+  const { user, profile, updateProfile, updateEmail } = useAuth();
+  const [formData, setFormData] = useState({ name: '', address: '' });
+  const [newEmail, setNewEmail] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (profile) {
+      setFormData({ name: profile.name, address: profile.address || '' });
+    }
+  }, [profile]);
+
+  const handleInputChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const handleUpdateProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = profileSchema.safeParse(formData);
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      return;
+    }
+
+    setSavingProfile(true);
+    const { error } = await updateProfile(result.data as ProfileDetails);
+    setSavingProfile(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setErrors({});
+      toast({ title: 'Success', description: 'Profile updated successfully' });
+    }
+  };
+
+  const handleUpdateEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = emailSchema.safeParse(newEmail);
+    if (!result.success) {
+      setErrors(prev => ({ ...prev, email: result.error.errors[0].message }));
+      return;
+    }
+
+    if (result.data.toLowerCase() === profile?.email.toLowerCase()) {
+      setErrors(prev => ({ ...prev, email: 'This is already your email address' }));
+      return;
+    }
+
+    setSavingEmail(true);
+    const { error } = await updateEmail(result.data);
+    setSavingEmail(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setErrors(prev => ({ ...prev, email: '' }));
+      setNewEmail('');
+      toast({
+        title: 'Confirm your new email',
+        description: 'We sent a confirmation link. Your email will change once it is confirmed.'
+      });
+    }
+  };
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-2xl mx-auto space-y-6">
+        <h1 className="text-3xl font-bold">Profile</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Details</CardTitle>
+            <CardDescription>Update the name and address stored with your account</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <ProfileField label="Role" value={<span className="capitalize">{profile.role.replace('_', ' ')}</span>} />
+              <ProfileField label="Member Since" value={new Date(profile.created_at).toLocaleDateString()} />
+            </div>
+
+            <form onSubmit={handleUpdateProfile} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => handleInputChange('name', e.target.value)}
+                  className={errors.name ? 'border-destructive' : ''}
+                />
+                {errors.name && (
+                  <p className="text-sm text-destructive">{errors.name}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="address">Address (Optional)</Label>
+                <Textarea
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => handleInputChange('address', e.target.value)}
+                  className={errors.address ? 'border-destructive' : ''}
+                  rows={3}
+                />
+                {errors.address && (
+                  <p className="text-sm text-destructive">{errors.address}</p>
+                )}
+              </div>
+
+              <Button type="submit" disabled={savingProfile}>
+                {savingProfile ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Address</CardTitle>
+            <CardDescription>
+              Changing your email requires confirming the new address
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ProfileField label="Current Email" value={profile.email} />
+            {user?.new_email && (
+              <p className="text-sm text-muted-foreground">
+                Pending change to <span className="font-medium">{user.new_email}</span>. Check your inbox to confirm it.
+              </p>
+            )}
+
+            <form onSubmit={handleUpdateEmail} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">New Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  className={errors.email ? 'border-destructive' : ''}
+                />
+                {errors.email && (
+                  <p className="text-sm text-destructive">{errors.email}</p>
+                )}
+              </div>
+
+              <Button type="submit" disabled={savingEmail}>
+                {savingEmail ? 'Sending...' : 'Change Email'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Password</CardTitle>
+            <CardDescription>Manage your password from the settings page</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/settings">Change Password</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
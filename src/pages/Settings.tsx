@@ -6,14 +6,9 @@ import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import Navbar from '@/components/Navbar';
+import { passwordSchema } from '@/lib/validation';
 import { z } from 'zod';
 
-const passwordSchema = z.string()
-  .min(8, 'Password must be at least 8 characters')
-  .max(16, 'Password must be at most 16 characters')
-  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-  .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character');
-
 const Settings = () => {
   const { updatePassword } = useAuth();
   const [currentPassword, setCurrentPassword] = useState('');
@@ -25,6 +20,10 @@ const Settings = () => {
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
+    if (!currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
     try {
       passwordSchema.parse(newPassword);
     } catch (error) {
@@ -33,6 +32,10 @@ const Settings = () => {
       }
     }
 
+    if (currentPassword && newPassword === currentPassword) {
+      newErrors.newPassword = 'New password must be different from the current password';
+    }
+
     if (newPassword !== confirmPassword) {
       newErrors.confirmPassword = 'Passwords do not match';
     }
@@ -51,9 +54,12 @@ const Settings = () => {
     setLoading(true);
 
     try {
-      const { error } = await updatePassword(newPassword);
+      const { error } = await updatePassword(currentPassword, newPassword);
       
       if (error) {
+        if (error.fieldErrors) {
+          setErrors(error.fieldErrors);
+        }
         toast({
           title: 'Error',
           description: error.message,
@@ -94,11 +100,27 @@ const Settings = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleUpdatePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="currentPassword">Current Password</Label>
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  className={errors.currentPassword ? 'border-destructive' : ''}
+                />
+                {errors.currentPassword && (
+                  <p className="text-sm text-destructive">{errors.currentPassword}</p>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="newPassword">New Password</Label>
                 <Input
                   id="newPassword"
                   type="password"
+                  autoComplete="new-password"
                   value={newPassword}
                   onChange={(e) => setNewPassword(e.target.value)}
                   className={errors.newPassword ? 'border-destructive' : ''}
@@ -113,6 +135,7 @@ const Settings = () => {
                 <Input
                   id="confirmPassword"
                   type="password"
+                  autoComplete="new-password"
                   value={confirmPassword}
                   onChange={(e) => setConfirmPassword(e.target.value)}
                   className={errors.confirmPassword ? 'border-destructive' : ''}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import StoreListEntries, { type ListedStore } from '@/components/StoreListEntries';
+
+// Shape of the JSON returned by public.get_shared_store_list()
+interface SharedList {
+  id: string;
+  name: string;
+  owner_name: string;
+  store_ids: string[];
+}
+
+// Read-only view of a list someone shared by link
+const SharedStoreList = () => {
+  const { code } = useParams<{ code: string }>();
+  const [list, setList] = useState<SharedList | null>(null);
+  const [stores, setStores] = useState<ListedStore[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchList();
+  }, [code]);
+
+  const fetchList = async () => {
+    if (!code) return;
+
+    setLoading(true);
+    const { data } = await supabase.rpc('get_shared_store_list', { _share_code: code });
+    const shared = data as unknown as SharedList | null;
+    setList(shared);
+
+    if (shared && shared.store_ids.length > 0) {
+      const { data: storeData } = await supabase
+        .from('store_ratings')
+        .select('id, name, address, average_rating')
+        .in('id', shared.store_ids);
+
+      // Keep the owner's order; stores that have since been removed drop out
+      const byId = new Map((storeData || []).map((store) => [store.id, store]));
+      setStores(shared.store_ids.flatMap((storeId) => {
+        const store = byId.get(storeId);
+        return store?.id && store.name
+          ? [{ id: store.id, name: store.name, address: store.address, average_rating: store.average_rating ?? 0 }]
+          : [];
+      }));
+    } else {
+      setStores([]);
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        {list ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-3xl">{list.name}</CardTitle>
+              <CardDescription>Shared by {list.owner_name}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {stores.length > 0 ? (
+                <StoreListEntries stores={stores} />
+              ) : (
+                <p className="text-sm text-muted-foreground">This list is empty.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="text-center space-y-4">
+            <h1 className="text-2xl font-bold">List not available</h1>
+            <p className="text-muted-foreground">The link may be wrong, or its owner has stopped sharing the list.</p>
+            <Button asChild variant="outline">
+              <Link to="/dashboard">Back to Dashboard</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedStoreList;
@@ -0,0 +1,377 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, Edit, Link as LinkIcon, Mail, MapPin, Star, Tag } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import StarRating from '@/components/StarRating';
+import RatingDialog, { type ExistingRating } from '@/components/RatingDialog';
+import ReviewList, { type StoreReview } from '@/components/ReviewList';
+import ReviewText from '@/components/ReviewText';
+import CriteriaBreakdown from '@/components/CriteriaBreakdown';
+import CategoryBenchmark from '@/components/CategoryBenchmark';
+import OpenStatusBadge from '@/components/OpenStatusBadge';
+import SaveStoreMenu, { type SavedStoreList } from '@/components/SaveStoreMenu';
+import OpeningHoursSummary from '@/components/OpeningHoursSummary';
+import StorePhotoCarousel from '@/components/StorePhotoCarousel';
+import { getRatingDistribution, type RatingBucket } from '@/lib/rating-stats';
+import { getOpenStatus, getZonedTime, type OpeningHours, type StoreClosure } from '@/lib/opening-hours';
+import { getPageRange } from '@/lib/table-query';
+import type { Json } from '@/integrations/supabase/types';
+
+const REVIEWS_PAGE_SIZE = 10;
+
+interface StoreInfo {
+  id: string;
+  owner_id: string;
+  brand_id: string | null;
+  category_id: string | null;
+  tags: string[];
+  name: string;
+  address: string;
+  email: string;
+  average_rating: number;
+  total_ratings: number;
+  criteria_averages: Json | null;
+  time_zone: string;
+}
+
+const StoreDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const [store, setStore] = useState<StoreInfo | null>(null);
+  const [distribution, setDistribution] = useState<RatingBucket[]>([]);
+  const [reviews, setReviews] = useState<StoreReview[]>([]);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [reviewPage, setReviewPage] = useState(1);
+  const [ownRating, setOwnRating] = useState<ExistingRating | null>(null);
+  const [brand, setBrand] = useState<{ id: string; name: string } | null>(null);
+  const [hours, setHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<StoreClosure[]>([]);
+  const [photos, setPhotos] = useState<{ id: string; path: string }[]>([]);
+  const [isFavorite, setIsFavorite] = useState(false);
+  const [lists, setLists] = useState<SavedStoreList[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ratingDialogOpen, setRatingDialogOpen] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [id, profile]);
+
+  const fetchData = async () => {
+    if (!id || !profile) return;
+
+    setLoading(true);
+
+    const [storeResult, ratingsResult, ownRatingResult, hoursResult, closuresResult, photosResult] = await Promise.all([
+      supabase
+        .from('store_ratings')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('ratings')
+        .select('rating')
+        .eq('store_id', id),
+      supabase
+        .from('ratings')
+        .select('id, rating, title, body')
+        .eq('store_id', id)
+        .eq('user_id', profile.id)
+        .maybeSingle(),
+      supabase
+        .from('store_opening_hours')
+        .select('weekday, opens_at, closes_at')
+        .eq('store_id', id),
+      // Yesterday is included because it may still be "today" in the store's time zone
+      supabase
+        .from('store_closures')
+        .select('closes_on, reason')
+        .eq('store_id', id)
+        .gte('closes_on', format(subDays(new Date(), 1), 'yyyy-MM-dd'))
+        .order('closes_on'),
+      supabase
+        .from('store_photos')
+        .select('id, path')
+        .eq('store_id', id)
+        .order('position')
+        .order('created_at')
+    ]);
+
+    const results = [storeResult, ratingsResult, ownRatingResult, hoursResult, closuresResult, photosResult];
+    if (results.some((result) => result.error)) {
+      toast({ title: 'Error', description: 'Failed to fetch store', variant: 'destructive' });
+    } else {
+      setStore(storeResult.data);
+      setDistribution(getRatingDistribution((ratingsResult.data || []).map((r) => r.rating)));
+      setOwnRating(ownRatingResult.data);
+      setHours(hoursResult.data || []);
+      setClosures(closuresResult.data || []);
+      setPhotos(photosResult.data || []);
+      await fetchBrand(storeResult.data?.brand_id);
+    }
+
+    await Promise.all([fetchReviews(1), fetchSaved()]);
+    setLoading(false);
+  };
+
+  const fetchSaved = async () => {
+    if (!id || !profile) return;
+
+    const [favoriteResult, listsResult] = await Promise.all([
+      supabase
+        .from('store_favorites')
+        .select('store_id')
+        .eq('user_id', profile.id)
+        .eq('store_id', id)
+        .maybeSingle(),
+      supabase
+        .from('store_lists')
+        .select('id, name, store_list_entries (store_id, position)')
+        .eq('user_id', profile.id)
+        .order('name')
+    ]);
+
+    setIsFavorite(!!favoriteResult.data);
+    setLists(listsResult.data || []);
+  };
+
+  const fetchBrand = async (brandId: string | null | undefined) => {
+    if (!brandId) {
+      setBrand(null);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('brands')
+      .select('id, name')
+      .eq('id', brandId)
+      .maybeSingle();
+
+    setBrand(data);
+  };
+
+  const fetchReviews = async (page: number) => {
+    if (!id) return;
+
+    const { from, to } = getPageRange(page, REVIEWS_PAGE_SIZE);
+    const { data, error, count } = await supabase
+      .from('store_reviews')
+      .select('*', { count: 'exact' })
+      .eq('store_id', id)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to fetch reviews', variant: 'destructive' });
+      return;
+    }
+
+    // Later pages are appended so "Show more" keeps the reviews already on screen
+    setReviews((prev) => (page === 1 ? data || [] : [...prev, ...(data || [])]));
+    setReviewCount(count || 0);
+    setReviewPage(page);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', description: 'Share it with anyone who has an account' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="p-6 max-w-4xl mx-auto">
+          <Card>
+            <CardContent className="py-6 text-center space-y-4">
+              <h2 className="text-2xl font-bold">Store Not Found</h2>
+              <p className="text-muted-foreground">This store doesn't exist or is no longer available.</p>
+              <Button variant="outline" asChild>
+                <Link to="/dashboard">Back to Dashboard</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Owners can't rate their own store
+  const canRate = store.owner_id !== profile?.id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" className="-ml-2" asChild>
+            <Link to="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={copyLink}>
+            <LinkIcon className="h-4 w-4 mr-2" />
+            Copy Link
+          </Button>
+        </div>
+
+        <StorePhotoCarousel photos={photos} storeName={store.name} />
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-3">
+              <CardTitle className="text-3xl">{store.name}</CardTitle>
+              <OpenStatusBadge status={getOpenStatus(hours, closures, store.time_zone)} />
+              <div className="ml-auto">
+                <SaveStoreMenu storeId={store.id} isFavorite={isFavorite} lists={lists} onChanged={fetchSaved} />
+              </div>
+            </div>
+            <CardDescription className="space-y-1">
+              {brand && (
+                <Link to={`/brands/${brand.id}`} className="flex items-center gap-2 font-medium hover:underline">
+                  <Tag className="h-4 w-4" />
+                  {brand.name}
+                </Link>
+              )}
+              <span className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                {store.address}
+              </span>
+              <a href={`mailto:${store.email}`} className="flex items-center gap-2 hover:underline">
+                <Mail className="h-4 w-4" />
+                {store.email}
+              </a>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Average Rating</p>
+              <div className="flex items-center space-x-3">
+                <span className="text-4xl font-bold">{store.average_rating.toFixed(1)}</span>
+                <div>
+                  <StarRating rating={Math.round(store.average_rating)} />
+                  <p className="text-sm text-muted-foreground">{store.total_ratings} reviews</p>
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {distribution.map((bucket) => (
+                <div key={bucket.stars} className="flex items-center gap-3 text-sm">
+                  <span className="flex w-8 items-center gap-1">
+                    {bucket.stars}
+                    <Star className="h-3 w-3 fill-current text-yellow-400" />
+                  </span>
+                  <Progress value={bucket.percentage} className="h-2 flex-1" />
+                  <span className="w-8 text-right text-muted-foreground">{bucket.count}</span>
+                </div>
+              ))}
+            </div>
+            <div className="md:col-span-2 space-y-4">
+              <CategoryBenchmark categoryId={store.category_id} storeAverage={store.average_rating} />
+              {store.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {store.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+                  ))}
+                </div>
+              )}
+              <CriteriaBreakdown averages={store.criteria_averages} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opening Hours</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OpeningHoursSummary
+              hours={hours}
+              closures={closures.filter((closure) => closure.closes_on >= getZonedTime(new Date(), store.time_zone).date)}
+              timeZone={store.time_zone}
+            />
+          </CardContent>
+        </Card>
+
+        {canRate && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Rating</CardTitle>
+              <CardDescription>
+                {ownRating ? 'You can update your rating at any time' : "You haven't rated this store yet"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {ownRating && (
+                <>
+                  <StarRating rating={ownRating.rating} />
+                  <ReviewText title={ownRating.title} body={ownRating.body} />
+                </>
+              )}
+              <Button
+                onClick={() => setRatingDialogOpen(true)}
+                variant={ownRating ? 'outline' : 'default'}
+              >
+                {ownRating ? (
+                  <>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Update Rating
+                  </>
+                ) : (
+                  <>
+                    <Star className="h-4 w-4 mr-2" />
+                    Rate Store
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Reviews</CardTitle>
+            <CardDescription>What customers are saying about this store</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ReviewList reviews={reviews} emptyMessage="No reviews yet. Be the first to rate this store!" />
+            {reviews.length < reviewCount && (
+              <Button variant="outline" className="w-full" onClick={() => fetchReviews(reviewPage + 1)}>
+                Show More Reviews
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <RatingDialog
+        store={ratingDialogOpen ? store : null}
+        existingRating={ownRating}
+        onOpenChange={setRatingDialogOpen}
+        onSaved={fetchData}
+      />
+    </div>
+  );
+};
+
+export default StoreDetails;
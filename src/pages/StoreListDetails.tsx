@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Edit, Filter, Link as LinkIcon, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import ConfirmDialog, { type ConfirmAction } from '@/components/ConfirmDialog';
+import StoreListDialog from '@/components/StoreListDialog';
+import StoreListEntries, { type ListedStore } from '@/components/StoreListEntries';
+
+interface StoreList {
+  id: string;
+  name: string;
+  is_shared: boolean;
+  share_code: string;
+}
+
+const StoreListDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [list, setList] = useState<StoreList | null>(null);
+  const [stores, setStores] = useState<ListedStore[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [renameOpen, setRenameOpen] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [id, profile]);
+
+  const fetchData = async () => {
+    if (!id || !profile) return;
+
+    setLoading(true);
+    const [listResult, entriesResult] = await Promise.all([
+      supabase
+        .from('store_lists')
+        .select('id, name, is_shared, share_code')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('store_list_entries')
+        .select('store_id, store_ratings (name, address, average_rating)')
+        .eq('list_id', id)
+        .order('position')
+        .order('created_at')
+    ]);
+
+    if (listResult.error || entriesResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch list', variant: 'destructive' });
+    } else {
+      setList(listResult.data);
+      setStores((entriesResult.data || []).map((entry) => ({
+        id: entry.store_id,
+        name: entry.store_ratings?.name ?? 'Store no longer listed',
+        address: entry.store_ratings?.address ?? null,
+        average_rating: entry.store_ratings?.average_rating ?? 0
+      })));
+    }
+    setLoading(false);
+  };
+
+  // Rewrites every position so gaps left by removed stores close up
+  const saveOrder = async (ordered: ListedStore[]) => {
+    if (!list) return;
+
+    setStores(ordered);
+    const { error } = await supabase
+      .from('store_list_entries')
+      .upsert(
+        ordered.map((store, position) => ({ list_id: list.id, store_id: store.id, position })),
+        { onConflict: 'list_id,store_id' }
+      );
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      fetchData();
+    }
+  };
+
+  const moveStore = (index: number, offset: number) => {
+    const next = [...stores];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveOrder(next);
+  };
+
+  const removeStore = async (store: ListedStore) => {
+    if (!list) return;
+
+    const { error } = await supabase
+      .from('store_list_entries')
+      .delete()
+      .eq('list_id', list.id)
+      .eq('store_id', store.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setStores(stores.filter((s) => s.id !== store.id));
+    }
+  };
+
+  const setShared = async (isShared: boolean) => {
+    if (!list) return;
+
+    const { error } = await supabase
+      .from('store_lists')
+      .update({ is_shared: isShared })
+      .eq('id', list.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setList({ ...list, is_shared: isShared });
+    }
+  };
+
+  const copyShareLink = async () => {
+    if (!list) return;
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/lists/shared/${list.share_code}`);
+      toast({ title: 'Link copied', description: 'Anyone with the link can view this list while sharing is on' });
+    } catch {
+      toast({ title: 'Error', description: 'Could not copy the link', variant: 'destructive' });
+    }
+  };
+
+  const deleteList = async () => {
+    if (!list) return;
+
+    const { error } = await supabase
+      .from('store_lists')
+      .delete()
+      .eq('id', list.id);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Success', description: 'List deleted' });
+      navigate('/lists');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!list) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="p-6 max-w-4xl mx-auto text-center space-y-4">
+          <h1 className="text-2xl font-bold">List not found</h1>
+          <p className="text-muted-foreground">It may have been deleted.</p>
+          <Button asChild variant="outline">
+            <Link to="/lists">Back to My Lists</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" className="-ml-2" asChild>
+            <Link to="/lists">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              My Lists
+            </Link>
+          </Button>
+          {profile?.role === 'normal_user' && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/dashboard?list=${list.id}`}>
+                <Filter className="h-4 w-4 mr-2" />
+                Show in Directory
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-3xl">{list.name}</CardTitle>
+            <CardDescription>{stores.length} {stores.length === 1 ? 'store' : 'stores'}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Switch id="list-shared" checked={list.is_shared} onCheckedChange={setShared} />
+                <Label htmlFor="list-shared">Shareable by link</Label>
+              </div>
+              {list.is_shared && (
+                <Button variant="outline" size="sm" onClick={copyShareLink}>
+                  <LinkIcon className="h-4 w-4 mr-2" />
+                  Copy Link
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setRenameOpen(true)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Rename
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                onClick={() => setConfirmAction({
+                  title: 'Delete list?',
+                  description: `${list.name} will be removed and its share link will stop working. The stores themselves are not affected.`,
+                  confirmLabel: 'Delete',
+                  destructive: true,
+                  onConfirm: deleteList
+                })}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stores</CardTitle>
+            <CardDescription>Use the arrows to put them in your preferred order</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stores.length > 0 ? (
+              <StoreListEntries stores={stores} onMove={moveStore} onRemove={removeStore} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No stores yet. Use the bookmark button on any store to add it to this list.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <StoreListDialog
+        open={renameOpen}
+        list={list}
+        onOpenChange={setRenameOpen}
+        onSaved={fetchData}
+      />
+      <ConfirmDialog
+        action={confirmAction}
+        onOpenChange={(open) => !open && setConfirmAction(null)}
+      />
+    </div>
+  );
+};
+
+export default StoreListDetails;
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bookmark, Heart, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import StoreListDialog from '@/components/StoreListDialog';
+
+interface StoreListSummary {
+  id: string;
+  name: string;
+  is_shared: boolean;
+  store_list_entries: { count: number }[];
+}
+
+const StoreLists = () => {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [lists, setLists] = useState<StoreListSummary[]>([]);
+  const [favoriteCount, setFavoriteCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  useEffect(() => {
+    fetchLists();
+  }, [profile]);
+
+  const fetchLists = async () => {
+    if (!profile) return;
+
+    setLoading(true);
+    const [listsResult, favoritesResult] = await Promise.all([
+      supabase
+        .from('store_lists')
+        .select('id, name, is_shared, store_list_entries(count)')
+        .eq('user_id', profile.id)
+        .order('name'),
+      supabase
+        .from('store_favorites')
+        .select('store_id', { count: 'exact', head: true })
+        .eq('user_id', profile.id)
+    ]);
+
+    if (listsResult.error) {
+      toast({ title: 'Error', description: 'Failed to fetch lists', variant: 'destructive' });
+    } else {
+      setLists(listsResult.data || []);
+    }
+    setFavoriteCount(favoritesResult.count ?? 0);
+    setLoading(false);
+  };
+
+  // Only regular users browse the Store Directory, so only they get a filtered view of it
+  const isDirectoryUser = profile?.role === 'normal_user';
+  const favoritesCard = (
+    <Card className={isDirectoryUser ? 'h-full hover:shadow-lg transition-shadow' : 'h-full'}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Heart className="h-4 w-4 fill-red-500 text-red-500" />
+          Favorites
+        </CardTitle>
+        <CardDescription>{favoriteCount} {favoriteCount === 1 ? 'store' : 'stores'} · tap the heart on any store to add it</CardDescription>
+      </CardHeader>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold">My Lists</h1>
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New List
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-center text-muted-foreground py-6">Loading...</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {isDirectoryUser ? <Link to="/dashboard?list=favorites">{favoritesCard}</Link> : favoritesCard}
+            {lists.map((list) => {
+              const count = list.store_list_entries[0]?.count ?? 0;
+              return (
+                <Link key={list.id} to={`/lists/${list.id}`}>
+                  <Card className="h-full hover:shadow-lg transition-shadow">
+                    <CardHeader>
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                          <Bookmark className="h-4 w-4" />
+                          {list.name}
+                        </CardTitle>
+                        <Badge variant={list.is_shared ? 'default' : 'secondary'}>{list.is_shared ? 'Shared' : 'Private'}</Badge>
+                      </div>
+                      <CardDescription>{count} {count === 1 ? 'store' : 'stores'}</CardDescription>
+                    </CardHeader>
+                  </Card>
+                </Link>
+              );
+            })}
+            {lists.length === 0 && (
+              <Card>
+                <CardContent className="py-6 text-center text-muted-foreground">
+                  Group stores into named lists like "Lunch spots" and share them with friends.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+
+      <StoreListDialog
+        open={createOpen}
+        list={null}
+        onOpenChange={setCreateOpen}
+        onSaved={(listId) => navigate(`/lists/${listId}`)}
+      />
+    </div>
+  );
+};
+
+export default StoreLists;
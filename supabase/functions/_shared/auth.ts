@@ -0,0 +1,31 @@
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2.56.0';
+
+export const createAdminClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+// Resolves the user behind the request's bearer token, or null if it is missing or invalid
+export const getCaller = async (req: Request): Promise<User | null> => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  return user;
+};
+
+// Mirrors public.is_admin(): a deactivated admin no longer counts
+export const isAdmin = async (adminClient: SupabaseClient, userId: string) => {
+  const { data } = await adminClient
+    .from('profiles')
+    .select('role, deleted_at')
+    .eq('user_id', userId)
+    .single();
+
+  return data?.role === 'admin' && data.deleted_at === null;
+};
@@ -0,0 +1,24 @@
+import { corsHeaders } from './cors.ts';
+
+// Keep in sync with FunctionErrorCode in src/lib/functions.ts
+export type FunctionErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'validation_failed'
+  | 'email_taken'
+  | 'invalid_credentials'
+  | 'rate_limited'
+  | 'internal_error';
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+export const errorResponse = (
+  status: number,
+  code: FunctionErrorCode,
+  message: string,
+  fieldErrors?: Record<string, string>
+) => jsonResponse({ error: { code, message, fieldErrors } }, status);
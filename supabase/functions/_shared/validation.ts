@@ -0,0 +1,21 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+
+// Mirrors src/lib/validation.ts
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(16, 'Password must be at most 16 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least one special character');
+
+export const getFieldErrors = (error: z.ZodError) => {
+  const fieldErrors: Record<string, string> = {};
+  error.errors.forEach((err) => {
+    if (err.path[0] && !fieldErrors[err.path[0] as string]) {
+      fieldErrors[err.path[0] as string] = err.message;
+    }
+  });
+  return fieldErrors;
+};
+
+// Mirrors escapeLike in src/lib/table-query.ts
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
@@ -0,0 +1,90 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders } from '../_shared/cors.ts';
+import { errorResponse, jsonResponse } from '../_shared/responses.ts';
+import { createAdminClient, getCaller, isAdmin } from '../_shared/auth.ts';
+import { escapeLike, getFieldErrors, passwordSchema } from '../_shared/validation.ts';
+
+// Mirrors userSchema in src/components/AdminDashboard.tsx
+const createUserSchema = z.object({
+  name: z.string().min(20, 'Name must be at least 20 characters').max(60, 'Name must be at most 60 characters'),
+  email: z.string().email('Invalid email address'),
+  address: z.string().max(400, 'Address must be at most 400 characters').optional(),
+  password: passwordSchema,
+  role: z.enum(['admin', 'normal_user', 'store_owner'])
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const caller = await getCaller(req);
+  if (!caller) {
+    return errorResponse(401, 'unauthorized', 'You must be signed in to create users');
+  }
+
+  const adminClient = createAdminClient();
+
+  if (!(await isAdmin(adminClient, caller.id))) {
+    return errorResponse(403, 'forbidden', 'Only administrators can create users');
+  }
+
+  const parsed = createUserSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return errorResponse(422, 'validation_failed', 'Please fix the highlighted fields', getFieldErrors(parsed.error));
+  }
+
+  const { name, email, address, password, role } = parsed.data;
+
+  // Case-insensitive exact match: the address's own _ and % must not act as wildcards
+  const { data: existing, error: lookupError } = await adminClient
+    .from('profiles')
+    .select('id')
+    .ilike('email', escapeLike(email))
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    return errorResponse(500, 'internal_error', lookupError.message);
+  }
+
+  if (existing) {
+    return errorResponse(409, 'email_taken', 'A user with this email already exists', {
+      email: 'A user with this email already exists'
+    });
+  }
+
+  // The on_auth_user_created trigger inserts the profile in the same transaction
+  const { data: created, error: createError } = await adminClient.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    user_metadata: { name, address },
+    // handle_new_user only trusts app metadata for the role, which signUp cannot set
+    app_metadata: { role }
+  });
+
+  if (createError || !created.user) {
+    if (createError?.message.includes('already been registered')) {
+      return errorResponse(409, 'email_taken', 'A user with this email already exists', {
+        email: 'A user with this email already exists'
+      });
+    }
+    return errorResponse(500, 'internal_error', createError?.message ?? 'Failed to create user');
+  }
+
+  const { data: profile, error: profileError } = await adminClient
+    .from('profiles')
+    .select('*')
+    .eq('user_id', created.user.id)
+    .single();
+
+  if (profileError || !profile) {
+    // Roll back the auth user so a missing profile never leaves a half-provisioned account
+    await adminClient.auth.admin.deleteUser(created.user.id);
+    return errorResponse(500, 'internal_error', profileError?.message ?? 'Failed to create user profile');
+  }
+
+  return jsonResponse({ profile }, 201);
+});
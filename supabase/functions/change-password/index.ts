@@ -0,0 +1,108 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders } from '../_shared/cors.ts';
+import { errorResponse, jsonResponse } from '../_shared/responses.ts';
+import { createAdminClient, getCaller } from '../_shared/auth.ts';
+import { getFieldErrors, passwordSchema } from '../_shared/validation.ts';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_WINDOW = '15 minutes';
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: passwordSchema
+}).refine((data) => data.currentPassword !== data.newPassword, {
+  message: 'New password must be different from the current password',
+  path: ['newPassword']
+});
+
+// Signs in with a throwaway client so the caller's own session is left untouched
+const verifyPassword = async (email: string, password: string) => {
+  const verifyClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { error } = await verifyClient.auth.signInWithPassword({ email, password });
+  if (error) return false;
+
+  await verifyClient.auth.signOut({ scope: 'local' });
+  return true;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const caller = await getCaller(req);
+  if (!caller?.email) {
+    return errorResponse(401, 'unauthorized', 'You must be signed in to change your password');
+  }
+
+  const parsed = changePasswordSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return errorResponse(422, 'validation_failed', 'Please fix the highlighted fields', getFieldErrors(parsed.error));
+  }
+
+  const adminClient = createAdminClient();
+
+  // Checks the lockout and records this attempt as failed in one step, so parallel requests
+  // can't all get in under the limit
+  const { data: attempt, error: attemptError } = await adminClient
+    .rpc('begin_password_change_attempt', {
+      _user_id: caller.id,
+      _max_failures: MAX_FAILED_ATTEMPTS,
+      _window: LOCKOUT_WINDOW
+    })
+    .single();
+
+  if (attemptError) {
+    return errorResponse(500, 'internal_error', attemptError.message);
+  }
+
+  if (!attempt.attempt_id) {
+    const minutes = Math.max(1, Math.ceil((new Date(attempt.locked_until).getTime() - Date.now()) / 60000));
+    return errorResponse(429, 'rate_limited', `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+  }
+
+  const { currentPassword, newPassword } = parsed.data;
+  const verified = await verifyPassword(caller.email, currentPassword);
+
+  // A wrong password leaves the attempt recorded as failed
+  if (!verified) {
+    return errorResponse(400, 'invalid_credentials', 'Current password is incorrect', {
+      currentPassword: 'Current password is incorrect'
+    });
+  }
+
+  const { error: markError } = await adminClient
+    .from('password_change_attempts')
+    .update({ succeeded: true })
+    .eq('id', attempt.attempt_id);
+
+  if (markError) {
+    return errorResponse(500, 'internal_error', markError.message);
+  }
+
+  const { error: updateError } = await adminClient.auth.admin.updateUserById(caller.id, {
+    password: newPassword
+  });
+
+  if (updateError) {
+    return errorResponse(500, 'internal_error', updateError.message);
+  }
+
+  // A successful change clears the slate for future attempts
+  const { error: clearError } = await adminClient
+    .from('password_change_attempts')
+    .delete()
+    .eq('user_id', caller.id)
+    .eq('succeeded', false);
+
+  if (clearError) {
+    return errorResponse(500, 'internal_error', clearError.message);
+  }
+
+  return jsonResponse({ success: true });
+});
@@ -0,0 +1,58 @@
+-- Make role assignment server-authoritative
+
+-- Check whether the current request belongs to an admin without re-entering RLS on profiles
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Public signups always get normal_user. The role is only read from app metadata,
+-- which can be written by the service role (admin-create-user) but never by signUp.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', 'Default Name (Please Update)'),
+    NEW.email,
+    COALESCE((NEW.raw_app_meta_data ->> 'role')::public.user_role, 'normal_user'::public.user_role)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Users may update their own profile, but only admins may change a role
+CREATE OR REPLACE FUNCTION public.prevent_role_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- auth.uid() is null for the service role and migrations, which stay trusted
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change user roles'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_role_escalation
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_role_escalation();
@@ -0,0 +1,36 @@
+-- Carry the signup address through into profiles
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _address TEXT := NULLIF(btrim(NEW.raw_user_meta_data ->> 'address'), '');
+BEGIN
+  -- Same limit as the profiles.address CHECK, but with a message the client can show
+  IF length(_address) > 400 THEN
+    RAISE EXCEPTION 'Address must be at most 400 characters'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.profiles (user_id, name, email, address, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', 'Default Name (Please Update)'),
+    NEW.email,
+    _address,
+    COALESCE((NEW.raw_app_meta_data ->> 'role')::public.user_role, 'normal_user'::public.user_role)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill profiles created before the address was persisted
+UPDATE public.profiles p
+SET address = NULLIF(btrim(u.raw_user_meta_data ->> 'address'), '')
+FROM auth.users u
+WHERE p.user_id = u.id
+  AND p.address IS NULL
+  AND length(NULLIF(btrim(u.raw_user_meta_data ->> 'address'), '')) <= 400;
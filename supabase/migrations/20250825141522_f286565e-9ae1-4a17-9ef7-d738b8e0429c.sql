@@ -0,0 +1,52 @@
+-- Keep profiles.email in sync with auth.users.email
+
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET email = NEW.email
+  WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+-- Fires once Supabase applies a confirmed email change
+CREATE TRIGGER on_auth_user_email_updated
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.handle_user_email_change();
+
+-- profiles.email mirrors auth.users, so users cannot edit it directly and skip confirmation
+CREATE OR REPLACE FUNCTION public.prevent_profile_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.email IS DISTINCT FROM OLD.email
+     AND auth.uid() IS NOT NULL
+     AND NEW.email IS DISTINCT FROM (SELECT email FROM auth.users WHERE id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Email can only be changed through the email confirmation flow'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_email_change
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_profile_email_change();
+
+-- Repair any rows that drifted before the sync existed
+UPDATE public.profiles p
+SET email = u.email
+FROM auth.users u
+WHERE p.user_id = u.id
+  AND p.email IS DISTINCT FROM u.email;
@@ -0,0 +1,13 @@
+-- Track password change attempts so the change-password function can rate limit failures
+CREATE TABLE public.password_change_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  succeeded BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the service role (change-password edge function) reads or writes attempts
+ALTER TABLE public.password_change_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_password_change_attempts_user_created
+  ON public.password_change_attempts(user_id, created_at DESC);
@@ -0,0 +1,128 @@
+-- Soft delete for profiles and stores, plus admin edit/delete policies
+
+ALTER TABLE public.profiles ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.stores ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- The original admin policies queried profiles from inside a profiles policy, which
+-- recurses. is_admin() is SECURITY DEFINER and reads profiles without RLS.
+DROP POLICY "Admins can view all profiles" ON public.profiles;
+DROP POLICY "Admins can insert profiles" ON public.profiles;
+DROP POLICY "Admins can update all profiles" ON public.profiles;
+
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can insert profiles"
+  ON public.profiles FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update all profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.is_admin());
+
+-- Profiles are never hard-deleted from the client: deleting the auth user cascades to them,
+-- and until then a deactivated profile keeps its ratings.
+
+DROP POLICY "Everyone can view stores" ON public.stores;
+DROP POLICY "Admins can insert stores" ON public.stores;
+DROP POLICY "Admins can update all stores" ON public.stores;
+
+CREATE POLICY "Everyone can view active stores"
+  ON public.stores FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Admins can view all stores"
+  ON public.stores FOR SELECT
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can insert stores"
+  ON public.stores FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update all stores"
+  ON public.stores FOR UPDATE
+  USING (public.is_admin());
+
+-- Hard deletes cascade to ratings, so only stores that were soft-deleted first can be removed
+CREATE POLICY "Admins can delete deleted stores"
+  ON public.stores FOR DELETE
+  USING (public.is_admin() AND deleted_at IS NOT NULL);
+
+-- Deactivated users keep their existing ratings but cannot add new ones
+DROP POLICY "Users can insert their own ratings" ON public.ratings;
+
+CREATE POLICY "Active users can insert their own ratings"
+  ON public.ratings FOR INSERT
+  WITH CHECK (auth.uid() = (
+    SELECT user_id FROM public.profiles
+    WHERE id = ratings.user_id AND deleted_at IS NULL
+  ));
+
+-- Users may update their own profile, but only admins may change a role or deactivate an account
+CREATE OR REPLACE FUNCTION public.prevent_role_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- auth.uid() is null for the service role and migrations, which stay trusted
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only administrators can change user roles'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    RAISE EXCEPTION 'Only administrators can deactivate or restore accounts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Store owners may edit their store's details, but not hand it over or delete it
+CREATE OR REPLACE FUNCTION public.prevent_store_owner_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    RAISE EXCEPTION 'Only administrators can reassign or delete stores'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_stores_owner_changes
+  BEFORE UPDATE ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_store_owner_changes();
+
+-- Recreate the view so it exposes deleted_at and applies the caller's RLS,
+-- which hides soft-deleted stores from everyone but admins
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
+
+CREATE INDEX idx_profiles_deleted_at ON public.profiles(deleted_at);
+CREATE INDEX idx_stores_deleted_at ON public.stores(deleted_at);
@@ -0,0 +1,22 @@
+-- Optional written review alongside each star rating
+ALTER TABLE public.ratings
+  ADD COLUMN title TEXT CHECK (char_length(title) BETWEEN 1 AND 100),
+  ADD COLUMN body TEXT CHECK (char_length(body) BETWEEN 1 AND 2000);
+
+-- Trim reviews and store blank ones as NULL before the length checks run
+CREATE OR REPLACE FUNCTION public.normalize_rating_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.title = NULLIF(btrim(NEW.title), '');
+  NEW.body = NULLIF(btrim(NEW.body), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_ratings_review
+  BEFORE INSERT OR UPDATE ON public.ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_rating_review();
@@ -0,0 +1,51 @@
+-- One public reply from the store owner per rating
+CREATE TABLE public.rating_replies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rating_id UUID NOT NULL UNIQUE REFERENCES public.ratings(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rating_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_rating_replies_updated_at
+  BEFORE UPDATE ON public.rating_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- True when the caller owns the store the rating belongs to
+CREATE OR REPLACE FUNCTION public.owns_rated_store(_rating_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ratings r
+    JOIN public.stores s ON s.id = r.store_id
+    JOIN public.profiles p ON p.id = s.owner_id
+    WHERE r.id = _rating_id
+      AND p.user_id = auth.uid()
+      AND p.deleted_at IS NULL
+  );
+$$;
+
+CREATE POLICY "Everyone can view rating replies"
+  ON public.rating_replies FOR SELECT
+  USING (true);
+
+CREATE POLICY "Store owners can reply to ratings on their stores"
+  ON public.rating_replies FOR INSERT
+  WITH CHECK (public.owns_rated_store(rating_id));
+
+CREATE POLICY "Store owners can update their replies"
+  ON public.rating_replies FOR UPDATE
+  USING (public.owns_rated_store(rating_id))
+  WITH CHECK (public.owns_rated_store(rating_id));
+
+CREATE POLICY "Store owners can delete their replies"
+  ON public.rating_replies FOR DELETE
+  USING (public.owns_rated_store(rating_id));
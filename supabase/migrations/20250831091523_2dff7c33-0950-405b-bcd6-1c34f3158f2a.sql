@@ -0,0 +1,22 @@
+-- Public reviews for the store page. Profiles are only visible to their owner
+-- and admins, so this view runs with its owner's privileges and exposes just the
+-- reviewer's name; soft-deleted stores stay hidden from everyone but admins.
+CREATE VIEW public.store_reviews AS
+SELECT
+  r.id,
+  r.store_id,
+  r.user_id,
+  r.rating,
+  r.title,
+  r.body,
+  r.created_at,
+  r.updated_at,
+  p.name AS reviewer_name,
+  rr.id AS reply_id,
+  rr.body AS reply_body,
+  rr.updated_at AS reply_updated_at
+FROM public.ratings r
+JOIN public.stores s ON s.id = r.store_id
+JOIN public.profiles p ON p.id = r.user_id
+LEFT JOIN public.rating_replies rr ON rr.rating_id = r.id
+WHERE s.deleted_at IS NULL OR public.is_admin();
@@ -0,0 +1,84 @@
+-- Brands group stores that belong to the same chain
+CREATE TABLE public.brands (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 2 AND 60),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.brands ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_brands_updated_at
+  BEFORE UPDATE ON public.brands
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Everyone can view brands"
+  ON public.brands FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert brands"
+  ON public.brands FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update brands"
+  ON public.brands FOR UPDATE
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can delete brands"
+  ON public.brands FOR DELETE
+  USING (public.is_admin());
+
+-- Deleting a brand leaves its stores in place, just ungrouped
+ALTER TABLE public.stores
+  ADD COLUMN brand_id UUID REFERENCES public.brands(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_stores_brand_id ON public.stores(brand_id);
+
+-- Only administrators decide which brand a store belongs to
+CREATE OR REPLACE FUNCTION public.prevent_store_owner_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    OR NEW.brand_id IS DISTINCT FROM OLD.brand_id THEN
+    RAISE EXCEPTION 'Only administrators can reassign, rebrand or delete stores'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- s.* is expanded when the view is created, so it must be rebuilt to pick up brand_id
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
+
+-- Brand aggregates are computed from the individual ratings, not by averaging store averages
+CREATE VIEW public.brand_ratings
+WITH (security_invoker = on) AS
+SELECT
+  b.*,
+  COUNT(DISTINCT s.id) as store_count,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings
+FROM public.brands b
+LEFT JOIN public.stores s ON s.brand_id = b.id AND s.deleted_at IS NULL
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY b.id;
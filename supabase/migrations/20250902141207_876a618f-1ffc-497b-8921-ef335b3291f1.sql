@@ -0,0 +1,136 @@
+-- Admin-defined aspects a store is scored on (service, cleanliness, value, ...)
+CREATE TABLE public.rating_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 2 AND 40),
+  description TEXT CHECK (char_length(description) <= 200),
+  -- Archived criteria keep their historical scores but are no longer asked for
+  archived_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.rating_criteria ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_rating_criteria_updated_at
+  BEFORE UPDATE ON public.rating_criteria
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Everyone can view rating criteria"
+  ON public.rating_criteria FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert rating criteria"
+  ON public.rating_criteria FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update rating criteria"
+  ON public.rating_criteria FOR UPDATE
+  USING (public.is_admin());
+
+-- One score per criterion per rating
+CREATE TABLE public.rating_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rating_id UUID NOT NULL REFERENCES public.ratings(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.rating_criteria(id) ON DELETE CASCADE,
+  score INTEGER NOT NULL CHECK (score >= 1 AND score <= 5),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (rating_id, criterion_id)
+);
+
+ALTER TABLE public.rating_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_rating_scores_criterion_id ON public.rating_scores(criterion_id);
+
+CREATE TRIGGER update_rating_scores_updated_at
+  BEFORE UPDATE ON public.rating_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view all rating scores"
+  ON public.rating_scores FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can insert scores on their own ratings"
+  ON public.rating_scores FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.ratings r
+      JOIN public.profiles p ON p.id = r.user_id
+      WHERE r.id = rating_scores.rating_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update scores on their own ratings"
+  ON public.rating_scores FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ratings r
+      JOIN public.profiles p ON p.id = r.user_id
+      WHERE r.id = rating_scores.rating_id AND p.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete scores on their own ratings"
+  ON public.rating_scores FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.ratings r
+      JOIN public.profiles p ON p.id = r.user_id
+      WHERE r.id = rating_scores.rating_id AND p.user_id = auth.uid()
+    )
+  );
+
+-- The overall rating is the rounded mean of its criterion scores, so every existing
+-- average, histogram and chart keeps working off ratings.rating
+CREATE OR REPLACE FUNCTION public.sync_overall_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _rating_id UUID := COALESCE(NEW.rating_id, OLD.rating_id);
+  _overall INTEGER;
+BEGIN
+  SELECT ROUND(AVG(score))::INTEGER INTO _overall
+  FROM public.rating_scores
+  WHERE rating_id = _rating_id;
+
+  -- With every score removed the rating keeps its last overall value
+  IF _overall IS NOT NULL THEN
+    UPDATE public.ratings SET rating = _overall WHERE id = _rating_id AND rating <> _overall;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_ratings_overall
+  AFTER INSERT OR UPDATE OR DELETE ON public.rating_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_overall_rating();
+
+-- Per-criterion averages as { criterion_id: average }
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings,
+  (
+    SELECT COALESCE(jsonb_object_agg(c.criterion_id, c.average), '{}'::jsonb)
+    FROM (
+      SELECT rs.criterion_id, ROUND(AVG(rs.score), 2) as average
+      FROM public.rating_scores rs
+      JOIN public.ratings sr ON sr.id = rs.rating_id
+      WHERE sr.store_id = s.id
+      GROUP BY rs.criterion_id
+    ) c
+  ) as criteria_averages
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
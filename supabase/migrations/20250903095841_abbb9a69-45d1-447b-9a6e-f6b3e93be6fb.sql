@@ -0,0 +1,111 @@
+-- Admin-managed store categories
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE CHECK (char_length(name) BETWEEN 2 AND 40),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Everyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admins can update categories"
+  ON public.categories FOR UPDATE
+  USING (public.is_admin());
+
+CREATE POLICY "Admins can delete categories"
+  ON public.categories FOR DELETE
+  USING (public.is_admin());
+
+-- One category per store plus up to ten free-form tags
+ALTER TABLE public.stores
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 10);
+
+CREATE INDEX idx_stores_category_id ON public.stores(category_id);
+CREATE INDEX idx_stores_tags ON public.stores USING GIN (tags);
+
+-- Tags are stored lowercased, trimmed and de-duplicated so filters match exactly
+CREATE OR REPLACE FUNCTION public.normalize_store_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.tags = COALESCE(
+    ARRAY(
+      SELECT DISTINCT lower(btrim(tag))
+      FROM unnest(NEW.tags) AS tag
+      WHERE btrim(tag) <> ''
+      ORDER BY 1
+    ),
+    '{}'
+  );
+
+  IF EXISTS (SELECT 1 FROM unnest(NEW.tags) AS tag WHERE char_length(tag) > 30) THEN
+    RAISE EXCEPTION 'Tags must be at most 30 characters'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_stores_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_store_tags();
+
+-- Criteria without a category apply to every store
+ALTER TABLE public.rating_criteria
+  ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_rating_criteria_category_id ON public.rating_criteria(category_id);
+
+-- Rebuilt to pick up category_id and tags from s.*
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings,
+  (
+    SELECT COALESCE(jsonb_object_agg(c.criterion_id, c.average), '{}'::jsonb)
+    FROM (
+      SELECT rs.criterion_id, ROUND(AVG(rs.score), 2) as average
+      FROM public.rating_scores rs
+      JOIN public.ratings sr ON sr.id = rs.rating_id
+      WHERE sr.store_id = s.id
+      GROUP BY rs.criterion_id
+    ) c
+  ) as criteria_averages
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
+
+-- Category benchmarks, computed from individual ratings like brand_ratings
+CREATE VIEW public.category_ratings
+WITH (security_invoker = on) AS
+SELECT
+  c.*,
+  COUNT(DISTINCT s.id) as store_count,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings
+FROM public.categories c
+LEFT JOIN public.stores s ON s.category_id = c.id AND s.deleted_at IS NULL
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY c.id;
@@ -0,0 +1,134 @@
+-- Opening hours are entered in the store's local time, so each store records its zone
+ALTER TABLE public.stores
+  ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE OR REPLACE FUNCTION public.validate_store_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_stores_time_zone
+  BEFORE INSERT OR UPDATE OF time_zone ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_store_time_zone();
+
+-- True when the caller owns the store or is an admin
+CREATE OR REPLACE FUNCTION public.can_manage_store(_store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.is_admin() OR EXISTS (
+    SELECT 1
+    FROM public.stores s
+    JOIN public.profiles p ON p.id = s.owner_id
+    WHERE s.id = _store_id
+      AND p.user_id = auth.uid()
+      AND p.deleted_at IS NULL
+  );
+$$;
+
+-- Weekly hours; weekday follows JavaScript's Date#getDay (0 = Sunday). A range whose
+-- closing time is earlier than its opening time runs past midnight into the next day.
+CREATE TABLE public.store_opening_hours (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL CHECK (closes_at <> opens_at),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (store_id, weekday, opens_at)
+);
+
+ALTER TABLE public.store_opening_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view opening hours"
+  ON public.store_opening_hours FOR SELECT
+  USING (true);
+
+CREATE POLICY "Store managers can insert opening hours"
+  ON public.store_opening_hours FOR INSERT
+  WITH CHECK (public.can_manage_store(store_id));
+
+CREATE POLICY "Store managers can update opening hours"
+  ON public.store_opening_hours FOR UPDATE
+  USING (public.can_manage_store(store_id));
+
+CREATE POLICY "Store managers can delete opening hours"
+  ON public.store_opening_hours FOR DELETE
+  USING (public.can_manage_store(store_id));
+
+-- Whole-day closures such as public holidays, in the store's local calendar
+CREATE TABLE public.store_closures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  closes_on DATE NOT NULL,
+  reason TEXT CHECK (char_length(reason) <= 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (store_id, closes_on)
+);
+
+ALTER TABLE public.store_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view closures"
+  ON public.store_closures FOR SELECT
+  USING (true);
+
+CREATE POLICY "Store managers can insert closures"
+  ON public.store_closures FOR INSERT
+  WITH CHECK (public.can_manage_store(store_id));
+
+CREATE POLICY "Store managers can delete closures"
+  ON public.store_closures FOR DELETE
+  USING (public.can_manage_store(store_id));
+
+-- Replaces a store's whole week in one transaction so a failed save can't leave it half-written.
+-- Runs as the caller, so the policies above still decide who may change the hours.
+CREATE OR REPLACE FUNCTION public.set_store_opening_hours(_store_id UUID, _hours JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.store_opening_hours WHERE store_id = _store_id;
+
+  INSERT INTO public.store_opening_hours (store_id, weekday, opens_at, closes_at)
+  SELECT _store_id, (h->>'weekday')::SMALLINT, (h->>'opens_at')::TIME, (h->>'closes_at')::TIME
+  FROM jsonb_array_elements(_hours) AS h;
+END;
+$$;
+
+-- Rebuilt to pick up time_zone from s.*
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings,
+  (
+    SELECT COALESCE(jsonb_object_agg(c.criterion_id, c.average), '{}'::jsonb)
+    FROM (
+      SELECT rs.criterion_id, ROUND(AVG(rs.score), 2) as average
+      FROM public.rating_scores rs
+      JOIN public.ratings sr ON sr.id = rs.rating_id
+      WHERE sr.store_id = s.id
+      GROUP BY rs.criterion_id
+    ) c
+  ) as criteria_averages
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
@@ -0,0 +1,54 @@
+-- Public bucket for store photos; objects live under <store_id>/ so policies can find the store.
+-- The size and type limits mirror PHOTO_MAX_BYTES and PHOTO_TYPES in src/lib/images.ts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('store-photos', 'store-photos', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Everyone can view store photo objects"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'store-photos');
+
+CREATE POLICY "Store managers can upload store photo objects"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'store-photos'
+    AND public.can_manage_store(((storage.foldername(name))[1])::UUID)
+  );
+
+CREATE POLICY "Store managers can delete store photo objects"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'store-photos'
+    AND public.can_manage_store(((storage.foldername(name))[1])::UUID)
+  );
+
+-- One row per uploaded photo; the lowest position is the store's cover image
+CREATE TABLE public.store_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  path TEXT NOT NULL UNIQUE,
+  thumbnail_path TEXT NOT NULL UNIQUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (path LIKE store_id::TEXT || '/%' AND thumbnail_path LIKE store_id::TEXT || '/%')
+);
+
+CREATE INDEX idx_store_photos_store_id ON public.store_photos(store_id, position);
+
+ALTER TABLE public.store_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view store photos"
+  ON public.store_photos FOR SELECT
+  USING (true);
+
+CREATE POLICY "Store managers can insert store photos"
+  ON public.store_photos FOR INSERT
+  WITH CHECK (public.can_manage_store(store_id));
+
+CREATE POLICY "Store managers can update store photos"
+  ON public.store_photos FOR UPDATE
+  USING (public.can_manage_store(store_id));
+
+CREATE POLICY "Store managers can delete store photos"
+  ON public.store_photos FOR DELETE
+  USING (public.can_manage_store(store_id));
@@ -0,0 +1,232 @@
+-- Profile id of the signed-in user, or NULL for deactivated accounts
+CREATE OR REPLACE FUNCTION public.current_profile_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT id FROM public.profiles
+  WHERE user_id = auth.uid() AND deleted_at IS NULL;
+$$;
+
+-- A group vote over a shortlist of stores; anyone holding the invite code can join until the deadline
+CREATE TABLE public.polls (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 3 AND 80),
+  description TEXT CHECK (char_length(description) <= 300),
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 12),
+  closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_polls_updated_at
+  BEFORE UPDATE ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.poll_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  UNIQUE (poll_id, store_id),
+  -- Lets poll_votes check that an option belongs to the poll being voted on
+  UNIQUE (id, poll_id)
+);
+
+CREATE TABLE public.poll_participants (
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (poll_id, user_id)
+);
+
+-- One vote per participant, which they can change until the poll closes
+CREATE TABLE public.poll_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  option_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (poll_id, user_id),
+  FOREIGN KEY (poll_id, user_id) REFERENCES public.poll_participants(poll_id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (option_id, poll_id) REFERENCES public.poll_options(id, poll_id) ON DELETE CASCADE
+);
+
+CREATE TRIGGER update_poll_votes_updated_at
+  BEFORE UPDATE ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_poll_participants_user_id ON public.poll_participants(user_id);
+CREATE INDEX idx_poll_votes_option_id ON public.poll_votes(option_id);
+
+CREATE OR REPLACE FUNCTION public.is_poll_participant(_poll_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.poll_participants
+    WHERE poll_id = _poll_id AND user_id = public.current_profile_id()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_poll_creator(_poll_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = _poll_id AND created_by = public.current_profile_id()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_poll_open(_poll_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = _poll_id AND closes_at > now()
+  );
+$$;
+
+-- The creator always takes part in their own poll
+CREATE OR REPLACE FUNCTION public.add_poll_creator()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.poll_participants (poll_id, user_id)
+  VALUES (NEW.id, NEW.created_by);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_poll_creator_as_participant
+  AFTER INSERT ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_poll_creator();
+
+-- Invite links carry the code rather than the poll id, so polls stay private to people who were sent one
+CREATE OR REPLACE FUNCTION public.join_poll(_invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _poll public.polls;
+  _profile_id UUID := public.current_profile_id();
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a poll'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _poll FROM public.polls WHERE invite_code = _invite_code;
+
+  IF _poll.id IS NULL THEN
+    RAISE EXCEPTION 'This invite link is not valid'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _poll.closes_at <= now() AND NOT public.is_poll_participant(_poll.id) THEN
+    RAISE EXCEPTION 'This poll has already closed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.poll_participants (poll_id, user_id)
+  VALUES (_poll.id, _profile_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN _poll.id;
+END;
+$$;
+
+ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their polls"
+  ON public.polls FOR SELECT
+  USING (created_by = public.current_profile_id() OR public.is_poll_participant(id) OR public.is_admin());
+
+CREATE POLICY "Active users can create polls"
+  ON public.polls FOR INSERT
+  WITH CHECK (created_by = public.current_profile_id() AND closes_at > now());
+
+CREATE POLICY "Creators can update their polls"
+  ON public.polls FOR UPDATE
+  USING (created_by = public.current_profile_id());
+
+CREATE POLICY "Creators can delete their polls"
+  ON public.polls FOR DELETE
+  USING (created_by = public.current_profile_id() OR public.is_admin());
+
+CREATE POLICY "Participants can view poll options"
+  ON public.poll_options FOR SELECT
+  USING (public.is_poll_participant(poll_id) OR public.is_admin());
+
+CREATE POLICY "Creators can add poll options"
+  ON public.poll_options FOR INSERT
+  WITH CHECK (public.is_poll_creator(poll_id));
+
+CREATE POLICY "Creators can remove poll options"
+  ON public.poll_options FOR DELETE
+  USING (public.is_poll_creator(poll_id));
+
+CREATE POLICY "Participants can view fellow participants"
+  ON public.poll_participants FOR SELECT
+  USING (public.is_poll_participant(poll_id) OR public.is_admin());
+
+CREATE POLICY "Participants can leave and creators can remove them"
+  ON public.poll_participants FOR DELETE
+  USING (user_id = public.current_profile_id() OR public.is_poll_creator(poll_id));
+
+CREATE POLICY "Participants can view votes"
+  ON public.poll_votes FOR SELECT
+  USING (public.is_poll_participant(poll_id) OR public.is_admin());
+
+CREATE POLICY "Participants can vote while the poll is open"
+  ON public.poll_votes FOR INSERT
+  WITH CHECK (user_id = public.current_profile_id() AND public.is_poll_open(poll_id));
+
+CREATE POLICY "Participants can change their vote while the poll is open"
+  ON public.poll_votes FOR UPDATE
+  USING (user_id = public.current_profile_id() AND public.is_poll_open(poll_id));
+
+CREATE POLICY "Participants can withdraw their vote while the poll is open"
+  ON public.poll_votes FOR DELETE
+  USING (user_id = public.current_profile_id() AND public.is_poll_open(poll_id));
+
+-- Fellow participants' names for the poll page; profiles themselves stay private,
+-- so this runs with its owner's privileges like store_reviews.
+CREATE VIEW public.poll_participant_names AS
+SELECT
+  pp.poll_id,
+  pp.user_id,
+  pp.joined_at,
+  p.name
+FROM public.poll_participants pp
+JOIN public.profiles p ON p.id = pp.user_id
+WHERE public.is_poll_participant(pp.poll_id) OR public.is_admin();
+
+-- Live results on the poll page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_votes, public.poll_participants;
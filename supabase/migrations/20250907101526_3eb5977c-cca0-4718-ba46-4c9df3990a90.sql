@@ -0,0 +1,91 @@
+-- Polls can now be counted with ranked choice, approval or Borda, so a participant's
+-- ballot becomes one row per chosen option. Counting itself happens in src/lib/tabulation.ts.
+CREATE TYPE public.poll_voting_method AS ENUM ('plurality', 'ranked', 'approval', 'borda');
+
+ALTER TABLE public.polls
+  ADD COLUMN voting_method public.poll_voting_method NOT NULL DEFAULT 'plurality';
+
+-- Ballots already cast only make sense under the method they were cast for
+CREATE OR REPLACE FUNCTION public.prevent_voting_method_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.voting_method IS DISTINCT FROM OLD.voting_method THEN
+    RAISE EXCEPTION 'The voting method cannot be changed after a poll is created'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_polls_voting_method_change
+  BEFORE UPDATE OF voting_method ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_voting_method_change();
+
+ALTER TABLE public.poll_votes
+  DROP CONSTRAINT poll_votes_poll_id_user_id_key,
+  ADD COLUMN rank SMALLINT CHECK (rank >= 1),
+  ADD CONSTRAINT poll_votes_poll_id_user_id_option_id_key UNIQUE (poll_id, user_id, option_id),
+  ADD CONSTRAINT poll_votes_poll_id_user_id_rank_key UNIQUE (poll_id, user_id, rank);
+
+-- Ranked methods need a rank on every row; single-choice polls allow one row per participant
+CREATE OR REPLACE FUNCTION public.validate_poll_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _method public.poll_voting_method;
+BEGIN
+  SELECT voting_method INTO _method FROM public.polls WHERE id = NEW.poll_id;
+
+  IF _method IN ('ranked', 'borda') AND NEW.rank IS NULL THEN
+    RAISE EXCEPTION 'Ranked ballots need a rank for every choice'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF _method = 'plurality' AND EXISTS (
+    SELECT 1 FROM public.poll_votes
+    WHERE poll_id = NEW.poll_id AND user_id = NEW.user_id AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Only one choice is allowed in this poll'
+      USING ERRCODE = '23505';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_poll_votes
+  BEFORE INSERT OR UPDATE ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_poll_vote();
+
+-- Replaces the caller's whole ballot in one transaction, ranking options in the order given.
+-- Runs as the caller, so the poll_votes policies still decide whether voting is open.
+CREATE OR REPLACE FUNCTION public.submit_poll_ballot(_poll_id UUID, _option_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _profile_id UUID := public.current_profile_id();
+  _method public.poll_voting_method;
+BEGIN
+  SELECT voting_method INTO _method FROM public.polls WHERE id = _poll_id;
+
+  DELETE FROM public.poll_votes WHERE poll_id = _poll_id AND user_id = _profile_id;
+
+  INSERT INTO public.poll_votes (poll_id, user_id, option_id, rank)
+  SELECT
+    _poll_id,
+    _profile_id,
+    choice.option_id,
+    CASE WHEN _method IN ('ranked', 'borda') THEN choice.position::SMALLINT END
+  FROM unnest(_option_ids) WITH ORDINALITY AS choice(option_id, position);
+END;
+$$;
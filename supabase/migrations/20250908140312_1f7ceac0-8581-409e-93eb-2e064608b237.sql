@@ -0,0 +1,314 @@
+-- Single-elimination tournaments between 8 or 16 stores. Participants vote on each
+-- head-to-head match and the organizer closes rounds to advance the winners.
+CREATE TABLE public.brackets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 3 AND 80),
+  size SMALLINT NOT NULL CHECK (size IN (8, 16)),
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 12),
+  current_round SMALLINT NOT NULL DEFAULT 1,
+  champion_store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Seed 1 is the highest-rated store at the time the bracket was created
+CREATE TABLE public.bracket_entries (
+  bracket_id UUID NOT NULL REFERENCES public.brackets(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  seed SMALLINT NOT NULL CHECK (seed >= 1),
+  average_rating NUMERIC NOT NULL,
+  PRIMARY KEY (bracket_id, store_id),
+  UNIQUE (bracket_id, seed)
+);
+
+-- Slots are numbered left to right within a round; the winners of slots 2k and 2k + 1 meet in slot k of the next round
+CREATE TABLE public.bracket_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bracket_id UUID NOT NULL REFERENCES public.brackets(id) ON DELETE CASCADE,
+  round SMALLINT NOT NULL CHECK (round >= 1),
+  slot SMALLINT NOT NULL CHECK (slot >= 0),
+  store_a_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  store_b_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  winner_store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL,
+  UNIQUE (bracket_id, round, slot),
+  -- Lets bracket_votes check that a match belongs to the bracket being voted in
+  UNIQUE (id, bracket_id)
+);
+
+CREATE TABLE public.bracket_participants (
+  bracket_id UUID NOT NULL REFERENCES public.brackets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (bracket_id, user_id)
+);
+
+CREATE TABLE public.bracket_votes (
+  match_id UUID NOT NULL,
+  bracket_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (match_id, user_id),
+  FOREIGN KEY (match_id, bracket_id) REFERENCES public.bracket_matches(id, bracket_id) ON DELETE CASCADE,
+  FOREIGN KEY (bracket_id, user_id) REFERENCES public.bracket_participants(bracket_id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_bracket_participants_user_id ON public.bracket_participants(user_id);
+CREATE INDEX idx_bracket_matches_bracket_id ON public.bracket_matches(bracket_id, round);
+CREATE INDEX idx_bracket_votes_bracket_id ON public.bracket_votes(bracket_id);
+
+CREATE OR REPLACE FUNCTION public.is_bracket_participant(_bracket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.bracket_participants
+    WHERE bracket_id = _bracket_id AND user_id = public.current_profile_id()
+  );
+$$;
+
+-- Votes are only accepted for one of the two stores in a match of the round currently being played
+CREATE OR REPLACE FUNCTION public.is_open_bracket_match(_match_id UUID, _store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bracket_matches m
+    JOIN public.brackets b ON b.id = m.bracket_id
+    WHERE m.id = _match_id
+      AND m.round = b.current_round
+      AND m.winner_store_id IS NULL
+      AND b.completed_at IS NULL
+      AND _store_id IN (m.store_a_id, m.store_b_id)
+  );
+$$;
+
+-- Creates the bracket, seeds the chosen stores by average rating (then review count) and
+-- lays out the first round so seed 1 meets the lowest seed and the top two seeds can only meet in the final
+CREATE OR REPLACE FUNCTION public.create_bracket(_title TEXT, _store_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _profile_id UUID := public.current_profile_id();
+  _size INTEGER := cardinality(_store_ids);
+  _bracket_id UUID;
+  _order INTEGER[] := ARRAY[1];
+  _next INTEGER[];
+  _seed INTEGER;
+  _slot INTEGER;
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to create a bracket'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _size NOT IN (8, 16) OR (SELECT count(DISTINCT id) FROM unnest(_store_ids) AS id) <> _size THEN
+    RAISE EXCEPTION 'A bracket needs exactly 8 or 16 different stores'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.brackets (title, size, created_by)
+  VALUES (_title, _size, _profile_id)
+  RETURNING id INTO _bracket_id;
+
+  INSERT INTO public.bracket_participants (bracket_id, user_id)
+  VALUES (_bracket_id, _profile_id);
+
+  INSERT INTO public.bracket_entries (bracket_id, store_id, seed, average_rating)
+  SELECT
+    _bracket_id,
+    sr.id,
+    row_number() OVER (ORDER BY sr.average_rating DESC, sr.total_ratings DESC, sr.id),
+    sr.average_rating
+  FROM public.store_ratings sr
+  WHERE sr.id = ANY (_store_ids) AND sr.deleted_at IS NULL;
+
+  IF (SELECT count(*) FROM public.bracket_entries WHERE bracket_id = _bracket_id) <> _size THEN
+    RAISE EXCEPTION 'Some of the chosen stores are no longer listed'
+      USING ERRCODE = '23503';
+  END IF;
+
+  -- Standard bracket order: [1, 2] -> [1, 4, 2, 3] -> [1, 8, 4, 5, 2, 7, 3, 6] -> ...
+  WHILE cardinality(_order) < _size LOOP
+    _next := ARRAY[]::INTEGER[];
+    FOREACH _seed IN ARRAY _order LOOP
+      _next := _next || _seed || (2 * cardinality(_order) + 1 - _seed);
+    END LOOP;
+    _order := _next;
+  END LOOP;
+
+  FOR _slot IN 0 .. _size / 2 - 1 LOOP
+    INSERT INTO public.bracket_matches (bracket_id, round, slot, store_a_id, store_b_id)
+    SELECT _bracket_id, 1, _slot, a.store_id, b.store_id
+    FROM public.bracket_entries a, public.bracket_entries b
+    WHERE a.bracket_id = _bracket_id AND a.seed = _order[2 * _slot + 1]
+      AND b.bracket_id = _bracket_id AND b.seed = _order[2 * _slot + 2];
+  END LOOP;
+
+  RETURN _bracket_id;
+END;
+$$;
+
+-- Closes the current round: each match goes to the store with more votes, ties to the better
+-- seed. Winners are paired into the next round, or the last winner is crowned champion.
+CREATE OR REPLACE FUNCTION public.advance_bracket(_bracket_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _bracket public.brackets;
+  _match_count INTEGER;
+BEGIN
+  SELECT * INTO _bracket FROM public.brackets WHERE id = _bracket_id FOR UPDATE;
+
+  IF _bracket.id IS NULL OR _bracket.created_by IS DISTINCT FROM public.current_profile_id() THEN
+    RAISE EXCEPTION 'Only the organizer can advance this bracket'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _bracket.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This bracket is already finished'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE public.bracket_matches m
+  SET winner_store_id = CASE
+    WHEN tally.votes_a > tally.votes_b THEN m.store_a_id
+    WHEN tally.votes_b > tally.votes_a THEN m.store_b_id
+    WHEN tally.seed_a < tally.seed_b THEN m.store_a_id
+    ELSE m.store_b_id
+  END
+  FROM (
+    SELECT
+      mm.id,
+      (SELECT count(*) FROM public.bracket_votes v WHERE v.match_id = mm.id AND v.store_id = mm.store_a_id) AS votes_a,
+      (SELECT count(*) FROM public.bracket_votes v WHERE v.match_id = mm.id AND v.store_id = mm.store_b_id) AS votes_b,
+      (SELECT seed FROM public.bracket_entries e WHERE e.bracket_id = mm.bracket_id AND e.store_id = mm.store_a_id) AS seed_a,
+      (SELECT seed FROM public.bracket_entries e WHERE e.bracket_id = mm.bracket_id AND e.store_id = mm.store_b_id) AS seed_b
+    FROM public.bracket_matches mm
+    WHERE mm.bracket_id = _bracket_id AND mm.round = _bracket.current_round
+  ) tally
+  WHERE m.id = tally.id;
+
+  SELECT count(*) INTO _match_count
+  FROM public.bracket_matches
+  WHERE bracket_id = _bracket_id AND round = _bracket.current_round;
+
+  IF _match_count = 1 THEN
+    UPDATE public.brackets
+    SET champion_store_id = (
+          SELECT winner_store_id FROM public.bracket_matches
+          WHERE bracket_id = _bracket_id AND round = _bracket.current_round
+        ),
+        completed_at = now()
+    WHERE id = _bracket_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.bracket_matches (bracket_id, round, slot, store_a_id, store_b_id)
+  SELECT _bracket_id, _bracket.current_round + 1, a.slot / 2, a.winner_store_id, b.winner_store_id
+  FROM public.bracket_matches a
+  JOIN public.bracket_matches b
+    ON b.bracket_id = a.bracket_id AND b.round = a.round AND b.slot = a.slot + 1
+  WHERE a.bracket_id = _bracket_id
+    AND a.round = _bracket.current_round
+    AND a.slot % 2 = 0;
+
+  UPDATE public.brackets
+  SET current_round = current_round + 1
+  WHERE id = _bracket_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_bracket(_invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _bracket public.brackets;
+  _profile_id UUID := public.current_profile_id();
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a bracket'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _bracket FROM public.brackets WHERE invite_code = _invite_code;
+
+  IF _bracket.id IS NULL THEN
+    RAISE EXCEPTION 'This invite link is not valid'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.bracket_participants (bracket_id, user_id)
+  VALUES (_bracket.id, _profile_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN _bracket.id;
+END;
+$$;
+
+ALTER TABLE public.brackets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bracket_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bracket_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bracket_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bracket_votes ENABLE ROW LEVEL SECURITY;
+
+-- Brackets, entries and matches are only written by the functions above
+CREATE POLICY "Participants can view their brackets"
+  ON public.brackets FOR SELECT
+  USING (public.is_bracket_participant(id) OR public.is_admin());
+
+CREATE POLICY "Organizers can delete their brackets"
+  ON public.brackets FOR DELETE
+  USING (created_by = public.current_profile_id() OR public.is_admin());
+
+CREATE POLICY "Participants can view bracket entries"
+  ON public.bracket_entries FOR SELECT
+  USING (public.is_bracket_participant(bracket_id) OR public.is_admin());
+
+CREATE POLICY "Participants can view bracket matches"
+  ON public.bracket_matches FOR SELECT
+  USING (public.is_bracket_participant(bracket_id) OR public.is_admin());
+
+CREATE POLICY "Participants can view fellow bracket participants"
+  ON public.bracket_participants FOR SELECT
+  USING (public.is_bracket_participant(bracket_id) OR public.is_admin());
+
+CREATE POLICY "Participants can leave brackets"
+  ON public.bracket_participants FOR DELETE
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Participants can view bracket votes"
+  ON public.bracket_votes FOR SELECT
+  USING (public.is_bracket_participant(bracket_id) OR public.is_admin());
+
+CREATE POLICY "Participants can vote on open matches"
+  ON public.bracket_votes FOR INSERT
+  WITH CHECK (user_id = public.current_profile_id() AND public.is_open_bracket_match(match_id, store_id));
+
+CREATE POLICY "Participants can change votes on open matches"
+  ON public.bracket_votes FOR UPDATE
+  USING (user_id = public.current_profile_id() AND public.is_open_bracket_match(match_id, store_id))
+  WITH CHECK (user_id = public.current_profile_id() AND public.is_open_bracket_match(match_id, store_id));
+
+CREATE POLICY "Participants can withdraw votes on open matches"
+  ON public.bracket_votes FOR DELETE
+  USING (user_id = public.current_profile_id() AND public.is_open_bracket_match(match_id, store_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.bracket_votes, public.bracket_matches;
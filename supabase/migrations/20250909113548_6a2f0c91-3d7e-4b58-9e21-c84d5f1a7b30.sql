@@ -0,0 +1,53 @@
+-- Scheduling polls: the organizer adds candidate dates alongside the store shortlist, and
+-- participants mark which dates they can make. A poll without dates is a plain venue poll.
+-- The recommended date and store pairing is worked out in src/lib/scheduling.ts.
+CREATE TABLE public.poll_dates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  UNIQUE (poll_id, date),
+  -- Lets poll_availability check that a date belongs to the poll being answered
+  UNIQUE (id, poll_id)
+);
+
+-- One row per date a participant can make; no row means they can't
+CREATE TABLE public.poll_availability (
+  poll_id UUID NOT NULL,
+  date_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (date_id, user_id),
+  FOREIGN KEY (poll_id, user_id) REFERENCES public.poll_participants(poll_id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (date_id, poll_id) REFERENCES public.poll_dates(id, poll_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_poll_availability_poll_id ON public.poll_availability(poll_id);
+
+ALTER TABLE public.poll_dates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_availability ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view poll dates"
+  ON public.poll_dates FOR SELECT
+  USING (public.is_poll_participant(poll_id) OR public.is_admin());
+
+CREATE POLICY "Creators can add poll dates"
+  ON public.poll_dates FOR INSERT
+  WITH CHECK (public.is_poll_creator(poll_id) AND date >= CURRENT_DATE);
+
+CREATE POLICY "Creators can remove poll dates"
+  ON public.poll_dates FOR DELETE
+  USING (public.is_poll_creator(poll_id));
+
+CREATE POLICY "Participants can view availability"
+  ON public.poll_availability FOR SELECT
+  USING (public.is_poll_participant(poll_id) OR public.is_admin());
+
+CREATE POLICY "Participants can mark availability while the poll is open"
+  ON public.poll_availability FOR INSERT
+  WITH CHECK (user_id = public.current_profile_id() AND public.is_poll_open(poll_id));
+
+CREATE POLICY "Participants can clear availability while the poll is open"
+  ON public.poll_availability FOR DELETE
+  USING (user_id = public.current_profile_id() AND public.is_poll_open(poll_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_availability;
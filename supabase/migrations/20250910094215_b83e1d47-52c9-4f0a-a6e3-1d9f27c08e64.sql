@@ -0,0 +1,121 @@
+-- Stores a user has marked as a favorite
+CREATE TABLE public.store_favorites (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, store_id)
+);
+
+-- Named, ordered collections of stores. Lists are private unless the owner turns on sharing,
+-- after which anyone holding the share link can view them through get_shared_store_list().
+CREATE TABLE public.store_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  share_code TEXT NOT NULL UNIQUE DEFAULT substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 12),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TRIGGER update_store_lists_updated_at
+  BEFORE UPDATE ON public.store_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.store_list_entries (
+  list_id UUID NOT NULL REFERENCES public.store_lists(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (list_id, store_id)
+);
+
+CREATE INDEX idx_store_lists_user_id ON public.store_lists(user_id);
+CREATE INDEX idx_store_list_entries_store_id ON public.store_list_entries(store_id);
+
+CREATE OR REPLACE FUNCTION public.owns_store_list(_list_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.store_lists
+    WHERE id = _list_id AND user_id = public.current_profile_id()
+  );
+$$;
+
+-- A shared list by its share code, with store ids in list order. Returns NULL for unknown codes
+-- and for lists whose owner has turned sharing off, so share links stop working immediately.
+CREATE OR REPLACE FUNCTION public.get_shared_store_list(_share_code TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT jsonb_build_object(
+    'id', l.id,
+    'name', l.name,
+    'owner_name', p.name,
+    'store_ids', COALESCE((
+      SELECT jsonb_agg(e.store_id ORDER BY e.position, e.created_at)
+      FROM public.store_list_entries e
+      WHERE e.list_id = l.id
+    ), '[]'::JSONB)
+  )
+  FROM public.store_lists l
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE l.share_code = _share_code AND l.is_shared AND p.deleted_at IS NULL;
+$$;
+
+ALTER TABLE public.store_favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_list_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their favorites"
+  ON public.store_favorites FOR SELECT
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can add favorites"
+  ON public.store_favorites FOR INSERT
+  WITH CHECK (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can remove favorites"
+  ON public.store_favorites FOR DELETE
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can view their lists"
+  ON public.store_lists FOR SELECT
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can create lists"
+  ON public.store_lists FOR INSERT
+  WITH CHECK (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can update their lists"
+  ON public.store_lists FOR UPDATE
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can delete their lists"
+  ON public.store_lists FOR DELETE
+  USING (user_id = public.current_profile_id());
+
+CREATE POLICY "Users can view entries of their lists"
+  ON public.store_list_entries FOR SELECT
+  USING (public.owns_store_list(list_id));
+
+CREATE POLICY "Users can add entries to their lists"
+  ON public.store_list_entries FOR INSERT
+  WITH CHECK (public.owns_store_list(list_id));
+
+CREATE POLICY "Users can reorder entries in their lists"
+  ON public.store_list_entries FOR UPDATE
+  USING (public.owns_store_list(list_id));
+
+CREATE POLICY "Users can remove entries from their lists"
+  ON public.store_list_entries FOR DELETE
+  USING (public.owns_store_list(list_id));
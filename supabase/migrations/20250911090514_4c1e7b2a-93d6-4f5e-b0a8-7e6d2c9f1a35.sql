@@ -0,0 +1,26 @@
+-- Deactivated accounts lose their privileges on the server too, not just behind the
+-- client's "Account Deactivated" screen
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin' AND deleted_at IS NULL
+  );
+$$;
+
+DROP POLICY "Store owners can update their own stores" ON public.stores;
+
+CREATE POLICY "Active store owners can update their own stores"
+  ON public.stores FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND id = stores.owner_id AND deleted_at IS NULL
+    )
+  );
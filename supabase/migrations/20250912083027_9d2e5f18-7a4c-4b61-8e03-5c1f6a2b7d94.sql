@@ -0,0 +1,26 @@
+-- Scores on archived criteria stay for history but no longer count towards the overall
+-- rating, matching the criteria the rating dialog asks for and averages
+CREATE OR REPLACE FUNCTION public.sync_overall_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _rating_id UUID := COALESCE(NEW.rating_id, OLD.rating_id);
+  _overall INTEGER;
+BEGIN
+  SELECT ROUND(AVG(rs.score))::INTEGER INTO _overall
+  FROM public.rating_scores rs
+  JOIN public.rating_criteria c ON c.id = rs.criterion_id
+  WHERE rs.rating_id = _rating_id
+    AND c.archived_at IS NULL;
+
+  -- With every active score removed the rating keeps its last overall value
+  IF _overall IS NOT NULL THEN
+    UPDATE public.ratings SET rating = _overall WHERE id = _rating_id AND rating <> _overall;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
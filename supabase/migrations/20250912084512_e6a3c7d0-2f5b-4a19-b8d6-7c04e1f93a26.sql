@@ -0,0 +1,27 @@
+-- Deleting a category used to cascade to its criteria and from there to every score given
+-- on them, rewriting past overall ratings. Its criteria are now archived instead and kept,
+-- without a category, alongside their historical scores.
+ALTER TABLE public.rating_criteria
+  DROP CONSTRAINT rating_criteria_category_id_fkey,
+  ADD CONSTRAINT rating_criteria_category_id_fkey
+    FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.archive_category_criteria()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.rating_criteria
+  SET archived_at = now()
+  WHERE category_id = OLD.id AND archived_at IS NULL;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER archive_categories_criteria
+  BEFORE DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.archive_category_criteria();
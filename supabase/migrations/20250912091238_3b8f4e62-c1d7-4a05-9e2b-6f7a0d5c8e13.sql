@@ -0,0 +1,72 @@
+-- Bracket history outlives the stores in it: a store that took part in a bracket can be
+-- soft-deleted but no longer purged, where the cascade used to wipe its entries, matches
+-- and votes out of finished brackets
+ALTER TABLE public.brackets
+  DROP CONSTRAINT brackets_champion_store_id_fkey,
+  ADD CONSTRAINT brackets_champion_store_id_fkey
+    FOREIGN KEY (champion_store_id) REFERENCES public.stores(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.bracket_entries
+  DROP CONSTRAINT bracket_entries_store_id_fkey,
+  ADD CONSTRAINT bracket_entries_store_id_fkey
+    FOREIGN KEY (store_id) REFERENCES public.stores(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.bracket_matches
+  DROP CONSTRAINT bracket_matches_store_a_id_fkey,
+  DROP CONSTRAINT bracket_matches_store_b_id_fkey,
+  DROP CONSTRAINT bracket_matches_winner_store_id_fkey,
+  ADD CONSTRAINT bracket_matches_store_a_id_fkey
+    FOREIGN KEY (store_a_id) REFERENCES public.stores(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT bracket_matches_store_b_id_fkey
+    FOREIGN KEY (store_b_id) REFERENCES public.stores(id) ON DELETE RESTRICT,
+  ADD CONSTRAINT bracket_matches_winner_store_id_fkey
+    FOREIGN KEY (winner_store_id) REFERENCES public.stores(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.bracket_votes
+  DROP CONSTRAINT bracket_votes_store_id_fkey,
+  ADD CONSTRAINT bracket_votes_store_id_fkey
+    FOREIGN KEY (store_id) REFERENCES public.stores(id) ON DELETE RESTRICT;
+
+-- Invite links stop working once the champion is crowned; existing participants still
+-- land on the bracket when they follow theirs
+CREATE OR REPLACE FUNCTION public.join_bracket(_invite_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _bracket public.brackets;
+  _profile_id UUID := public.current_profile_id();
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to join a bracket'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _bracket FROM public.brackets WHERE invite_code = _invite_code;
+
+  IF _bracket.id IS NULL THEN
+    RAISE EXCEPTION 'This invite link is not valid'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _bracket.completed_at IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.bracket_participants
+      WHERE bracket_id = _bracket.id AND user_id = _profile_id
+    ) THEN
+      RETURN _bracket.id;
+    END IF;
+
+    RAISE EXCEPTION 'This bracket has already finished'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO public.bracket_participants (bracket_id, user_id)
+  VALUES (_bracket.id, _profile_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN _bracket.id;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- Counts recent failures and records the new attempt in one step, serialised per user, so
+-- parallel requests cannot all slip under the lockout. The attempt is recorded as failed
+-- up front; change-password marks it succeeded once the current password checks out.
+-- Returns the new attempt's id, or only the time the lockout lifts when the user is locked out.
+CREATE OR REPLACE FUNCTION public.begin_password_change_attempt(
+  _user_id UUID,
+  _max_failures INTEGER,
+  _window INTERVAL
+)
+RETURNS TABLE (attempt_id UUID, locked_until TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _failures INTEGER;
+  _oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(_user_id::TEXT, 0));
+
+  SELECT COUNT(*), MIN(created_at) INTO _failures, _oldest
+  FROM public.password_change_attempts
+  WHERE user_id = _user_id
+    AND NOT succeeded
+    AND created_at >= now() - _window;
+
+  IF _failures >= _max_failures THEN
+    RETURN QUERY SELECT NULL::UUID, _oldest + _window;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.password_change_attempts (user_id, succeeded)
+  VALUES (_user_id, false)
+  RETURNING id, NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$;
+
+-- Only the service role (change-password edge function) records attempts
+REVOKE EXECUTE ON FUNCTION public.begin_password_change_attempt(UUID, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
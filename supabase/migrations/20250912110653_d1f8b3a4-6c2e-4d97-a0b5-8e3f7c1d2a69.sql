@@ -0,0 +1,25 @@
+-- Permanently deleting a store cascaded to its ratings, criterion scores and replies, and to
+-- the polls it was an option in. A store with any of that history now stays soft-deleted;
+-- only stores nobody has rated or voted on can be purged.
+CREATE OR REPLACE FUNCTION public.prevent_store_history_purge()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.ratings WHERE store_id = OLD.id)
+     OR EXISTS (SELECT 1 FROM public.poll_options WHERE store_id = OLD.id)
+     OR EXISTS (SELECT 1 FROM public.bracket_entries WHERE store_id = OLD.id) THEN
+    RAISE EXCEPTION 'Stores with ratings, poll or bracket history cannot be permanently deleted'
+      USING ERRCODE = '23503';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_stores_history_purge
+  BEFORE DELETE ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_store_history_purge();
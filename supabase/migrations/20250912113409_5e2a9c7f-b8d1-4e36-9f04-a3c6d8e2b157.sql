@@ -0,0 +1,30 @@
+-- Creators may close a poll early but never push its deadline back, which would reopen a
+-- poll after its result was decided
+CREATE OR REPLACE FUNCTION public.prevent_poll_deadline_extension()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.closes_at <= now() THEN
+    RAISE EXCEPTION 'This poll has already closed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.closes_at > OLD.closes_at THEN
+    RAISE EXCEPTION 'A poll''s deadline can only be brought forward'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_polls_deadline_extension
+  BEFORE UPDATE ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_poll_deadline_extension();
@@ -0,0 +1,30 @@
+-- Each store's cover (its lowest-positioned photo) comes with the store itself, so the
+-- directory no longer loads every photo row and loses covers past the API's row cap
+DROP VIEW IF EXISTS public.store_ratings;
+
+CREATE VIEW public.store_ratings
+WITH (security_invoker = on) AS
+SELECT
+  s.*,
+  COALESCE(AVG(r.rating), 0) as average_rating,
+  COUNT(r.id) as total_ratings,
+  (
+    SELECT COALESCE(jsonb_object_agg(c.criterion_id, c.average), '{}'::jsonb)
+    FROM (
+      SELECT rs.criterion_id, ROUND(AVG(rs.score), 2) as average
+      FROM public.rating_scores rs
+      JOIN public.ratings sr ON sr.id = rs.rating_id
+      WHERE sr.store_id = s.id
+      GROUP BY rs.criterion_id
+    ) c
+  ) as criteria_averages,
+  (
+    SELECT p.thumbnail_path
+    FROM public.store_photos p
+    WHERE p.store_id = s.id
+    ORDER BY p.position, p.created_at
+    LIMIT 1
+  ) as cover_thumbnail_path
+FROM public.stores s
+LEFT JOIN public.ratings r ON s.id = r.store_id
+GROUP BY s.id;
@@ -0,0 +1,39 @@
+-- Saves a rating and its criterion scores together, so a failed score write can't leave a
+-- rating whose stored overall no scores back up. Runs as the caller, so the ratings and
+-- rating_scores policies still decide what may be written. _scores maps criterion ids to scores.
+CREATE OR REPLACE FUNCTION public.save_rating(
+  _store_id UUID,
+  _rating INTEGER,
+  _title TEXT,
+  _body TEXT,
+  _scores JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  _profile_id UUID := public.current_profile_id();
+  _rating_id UUID;
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to rate a store'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.ratings (user_id, store_id, rating, title, body)
+  VALUES (_profile_id, _store_id, _rating, _title, _body)
+  ON CONFLICT (user_id, store_id) DO UPDATE
+  SET rating = EXCLUDED.rating, title = EXCLUDED.title, body = EXCLUDED.body
+  RETURNING id INTO _rating_id;
+
+  -- sync_overall_rating() then derives ratings.rating from these
+  INSERT INTO public.rating_scores (rating_id, criterion_id, score)
+  SELECT _rating_id, key::UUID, value::INTEGER
+  FROM jsonb_each_text(_scores)
+  ON CONFLICT (rating_id, criterion_id) DO UPDATE
+  SET score = EXCLUDED.score;
+
+  RETURN _rating_id;
+END;
+$$;
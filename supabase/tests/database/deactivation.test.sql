@@ -0,0 +1,43 @@
+-- Deactivated accounts lose admin and store owner privileges. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000011', 'admin@example.com', '{"name": "Ada Admin Of The Directory"}', '{"role": "admin"}'),
+  ('00000000-0000-0000-0000-000000000012', 'owner@example.com', '{"name": "Olive Owner Of The Cafe"}', '{"role": "store_owner"}');
+
+INSERT INTO public.stores (id, name, email, address, owner_id)
+SELECT '00000000-0000-0000-0000-000000000021', 'Corner Cafe on Main Street', 'cafe@example.com', '1 Main St', id
+FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000012';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000011", "role": "authenticated"}', true);
+
+SELECT ok(public.is_admin(), 'An active admin is an admin');
+
+-- Deactivate both accounts server-side, then carry on as the admin
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '{}', true);
+UPDATE public.profiles SET deleted_at = now()
+WHERE user_id IN ('00000000-0000-0000-0000-000000000011', '00000000-0000-0000-0000-000000000012');
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000011", "role": "authenticated"}', true);
+
+SELECT ok(NOT public.is_admin(), 'A deactivated admin is not an admin');
+
+SELECT is_empty(
+  $$ UPDATE public.profiles SET role = 'normal_user' WHERE user_id = '00000000-0000-0000-0000-000000000012' RETURNING id $$,
+  'A deactivated admin cannot update other profiles'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000012", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.stores SET name = 'Corner Cafe on Second Street' WHERE id = '00000000-0000-0000-0000-000000000021' RETURNING id $$,
+  'A deactivated owner cannot edit their store'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
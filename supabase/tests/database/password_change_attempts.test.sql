@@ -0,0 +1,44 @@
+-- Lockout bookkeeping behind the change-password function. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000031', 'forgetful@example.com', '{"name": "Fran Forgets The Password"}', '{}');
+
+SELECT public.begin_password_change_attempt('00000000-0000-0000-0000-000000000031', 5, '15 minutes')
+FROM generate_series(1, 5);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.password_change_attempts
+   WHERE user_id = '00000000-0000-0000-0000-000000000031' AND NOT succeeded),
+  5,
+  'Each attempt is recorded as failed up front'
+);
+
+SELECT is(
+  (SELECT attempt_id FROM public.begin_password_change_attempt('00000000-0000-0000-0000-000000000031', 5, '15 minutes')),
+  NULL,
+  'The sixth attempt in the window is refused'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.password_change_attempts
+   WHERE user_id = '00000000-0000-0000-0000-000000000031'),
+  5,
+  'A refused attempt is not recorded'
+);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000031", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.begin_password_change_attempt('00000000-0000-0000-0000-000000000031', 5, '15 minutes') $$,
+  '42501',
+  NULL,
+  'Signed-in users cannot record attempts themselves'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
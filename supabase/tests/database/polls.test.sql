@@ -0,0 +1,42 @@
+-- Poll deadlines can be brought forward but never pushed back. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000061', 'organizer@example.com', '{"name": "Oscar Organizes Outings"}', '{}');
+
+INSERT INTO public.polls (id, title, created_by, closes_at)
+SELECT '00000000-0000-0000-0000-000000000071', 'Friday lunch', id, now() + interval '1 day'
+FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000061';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000061", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.polls SET closes_at = now() + interval '2 days' WHERE id = '00000000-0000-0000-0000-000000000071' $$,
+  '23514',
+  'A poll''s deadline can only be brought forward',
+  'An open poll cannot be extended'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.polls SET closes_at = now() + interval '1 hour' WHERE id = '00000000-0000-0000-0000-000000000071' $$,
+  'An open poll can be shortened'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.polls SET closes_at = now() WHERE id = '00000000-0000-0000-0000-000000000071' $$,
+  'An open poll can be closed early'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.polls SET closes_at = now() + interval '1 day' WHERE id = '00000000-0000-0000-0000-000000000071' $$,
+  '23514',
+  'This poll has already closed',
+  'A closed poll cannot be reopened'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
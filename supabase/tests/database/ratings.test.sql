@@ -0,0 +1,54 @@
+-- Ratings and their criterion scores are saved together. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000081', 'rater@example.com', '{"name": "Rita Rates Every Store"}', '{}'),
+  ('00000000-0000-0000-0000-000000000082', 'owner@example.com', '{"name": "Olive Owner Of The Cafe"}', '{"role": "store_owner"}');
+
+INSERT INTO public.stores (id, name, email, address, owner_id)
+SELECT '00000000-0000-0000-0000-000000000091', 'Corner Cafe on Main Street', 'cafe@example.com', '1 Main St', id
+FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000082';
+
+INSERT INTO public.rating_criteria (id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'Service'),
+  ('00000000-0000-0000-0000-0000000000a2', 'Value');
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000081", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.save_rating('00000000-0000-0000-0000-000000000091', 3, NULL, NULL,
+       '{"00000000-0000-0000-0000-0000000000a1": 5, "00000000-0000-0000-0000-0000000000a2": 9}') $$,
+  '23514',
+  NULL,
+  'An invalid score is rejected'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.ratings WHERE store_id = '00000000-0000-0000-0000-000000000091' $$,
+  'No rating is left behind without its scores'
+);
+
+SELECT public.save_rating('00000000-0000-0000-0000-000000000091', 3, 'Lovely', NULL,
+  '{"00000000-0000-0000-0000-0000000000a1": 5, "00000000-0000-0000-0000-0000000000a2": 4}');
+
+SELECT is(
+  (SELECT rating FROM public.ratings WHERE store_id = '00000000-0000-0000-0000-000000000091'),
+  5,
+  'The overall rating is derived from the saved scores'
+);
+
+SELECT public.save_rating('00000000-0000-0000-0000-000000000091', 2, NULL, NULL,
+  '{"00000000-0000-0000-0000-0000000000a1": 2, "00000000-0000-0000-0000-0000000000a2": 2}');
+
+SELECT results_eq(
+  $$ SELECT rating, title FROM public.ratings WHERE store_id = '00000000-0000-0000-0000-000000000091' $$,
+  $$ VALUES (2, NULL::TEXT) $$,
+  'Saving again updates the same rating'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
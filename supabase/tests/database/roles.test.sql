@@ -0,0 +1,66 @@
+-- Role assignment and escalation checks. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Signups write raw_user_meta_data; only the service role (admin-create-user) writes raw_app_meta_data
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'signup@example.com', '{"name": "Sam Signup From The Form", "role": "admin"}', '{}'),
+  ('00000000-0000-0000-0000-000000000002', 'owner@example.com', '{"name": "Olive Owner Of The Cafe"}', '{"role": "store_owner"}'),
+  ('00000000-0000-0000-0000-000000000003', 'admin@example.com', '{"name": "Ada Admin Of The Directory"}', '{"role": "admin"}');
+
+SELECT is(
+  (SELECT role::TEXT FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000001'),
+  'normal_user',
+  'A role in signup metadata is ignored'
+);
+
+SELECT is(
+  (SELECT role::TEXT FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000002'),
+  'store_owner',
+  'A role in app metadata is kept'
+);
+
+-- Act as the signed-up user
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000001", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET role = 'admin' WHERE user_id = '00000000-0000-0000-0000-000000000001' $$,
+  '42501',
+  'Only administrators can change user roles',
+  'Users cannot promote themselves'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET name = 'Sam Renamed After Signing Up' WHERE user_id = '00000000-0000-0000-0000-000000000001' $$,
+  'Users can still edit the rest of their profile'
+);
+
+-- Act as the admin
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-000000000003", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET role = 'store_owner' WHERE user_id = '00000000-0000-0000-0000-000000000001' $$,
+  'Admins can assign roles'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT role::TEXT FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000001'),
+  'store_owner',
+  'The role assigned by the admin is stored'
+);
+
+-- The service role and migrations run without a user and stay trusted
+SELECT set_config('request.jwt.claims', '{}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET role = 'normal_user' WHERE user_id = '00000000-0000-0000-0000-000000000002' $$,
+  'Server-side updates can change roles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
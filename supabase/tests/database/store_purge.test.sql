@@ -0,0 +1,43 @@
+-- Soft-deleted stores can only be purged while they have no history. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data, raw_app_meta_data) VALUES
+  ('00000000-0000-0000-0000-000000000041', 'rater@example.com', '{"name": "Rita Rates Every Store"}', '{}'),
+  ('00000000-0000-0000-0000-000000000042', 'owner@example.com', '{"name": "Olive Owner Of The Cafe"}', '{"role": "store_owner"}');
+
+INSERT INTO public.stores (id, name, email, address, owner_id, deleted_at)
+SELECT store.id, store.name, store.email, store.address, p.id, now()
+FROM (VALUES
+  ('00000000-0000-0000-0000-000000000051'::UUID, 'Corner Cafe on Main Street', 'cafe@example.com', '1 Main St'),
+  ('00000000-0000-0000-0000-000000000052'::UUID, 'Bakery on Second Street', 'bakery@example.com', '2 Second St')
+) AS store (id, name, email, address)
+CROSS JOIN public.profiles p
+WHERE p.user_id = '00000000-0000-0000-0000-000000000042';
+
+INSERT INTO public.ratings (user_id, store_id, rating)
+SELECT id, '00000000-0000-0000-0000-000000000051', 4
+FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-000000000041';
+
+SELECT throws_ok(
+  $$ DELETE FROM public.stores WHERE id = '00000000-0000-0000-0000-000000000051' $$,
+  '23503',
+  'Stores with ratings, poll or bracket history cannot be permanently deleted',
+  'A rated store cannot be purged'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.ratings WHERE store_id = '00000000-0000-0000-0000-000000000051'),
+  1,
+  'Its ratings are kept'
+);
+
+SELECT lives_ok(
+  $$ DELETE FROM public.stores WHERE id = '00000000-0000-0000-0000-000000000052' $$,
+  'A store without history can be purged'
+);
+
+SELECT * FROM finish();
+ROLLBACK;